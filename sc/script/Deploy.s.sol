@@ -3,7 +3,10 @@ pragma solidity 0.8.28;
 
 import "forge-std/Script.sol";
 import "../src/Escrow.sol";
+import "../src/MockERC1155.sol";
+import "../src/MockERC721.sol";
 import "../src/MockToken.sol";
+import "../src/MockWETH.sol";
 
 contract DeployScript is Script {
     function run() external {
@@ -11,8 +14,12 @@ contract DeployScript is Script {
 
         vm.startBroadcast(deployerPrivateKey);
 
+        // Deploy WETH, which the Escrow wraps native ETH legs into
+        MockWETH weth = new MockWETH();
+        console.log("WETH deployed at:", address(weth));
+
         // Deploy Escrow contract
-        Escrow escrow = new Escrow();
+        Escrow escrow = new Escrow(address(weth));
         console.log("Escrow deployed at:", address(escrow));
 
         // Deploy Token A
@@ -26,8 +33,20 @@ contract DeployScript is Script {
         // Add tokens to escrow
         escrow.addToken(address(tokenA));
         escrow.addToken(address(tokenB));
+        escrow.addToken(address(weth));
         console.log("Tokens added to escrow");
 
+        // Deploy NFT collections
+        MockERC721 items = new MockERC721("Mock Items", "ITEM");
+        console.log("ERC721 collection deployed at:", address(items));
+
+        MockERC1155 multi = new MockERC1155("Mock Multi", "MULTI");
+        console.log("ERC1155 collection deployed at:", address(multi));
+
+        escrow.addCollection(address(items), Escrow.AssetType.ERC721);
+        escrow.addCollection(address(multi), Escrow.AssetType.ERC1155);
+        console.log("Collections added to escrow");
+
         // Mint tokens to test accounts
         address account0 = 0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266;
         address account1 = 0x70997970C51812dc3A010C7d01b50e0d17dc79C8;
@@ -43,13 +62,18 @@ contract DeployScript is Script {
 
         console.log("Tokens minted to test accounts");
 
-        vm.stopBroadcast();
+        // Three items each, and ERC1155 ids 1 and 2
+        address[3] memory accounts = [account0, account1, account2];
+        for (uint256 i = 0; i < accounts.length; i++) {
+            for (uint256 j = 0; j < 3; j++) {
+                items.mint(accounts[i]);
+            }
+            multi.mint(accounts[i], 1, 10);
+            multi.mint(accounts[i], 2, 100);
+        }
+
+        console.log("Items minted to test accounts");
 
-        // Log deployment addresses for the shell script to capture
-        console.log("\n=== DEPLOYMENT ADDRESSES ===");
-        console.log("ESCROW_ADDRESS=", vm.toString(address(escrow)));
-        console.log("TOKEN_A_ADDRESS=", vm.toString(address(tokenA)));
-        console.log("TOKEN_B_ADDRESS=", vm.toString(address(tokenB)));
-        console.log("=== END ADDRESSES ===");
+        vm.stopBroadcast();
     }
 }
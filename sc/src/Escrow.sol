@@ -1,14 +1,22 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.28;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./IWETH.sol";
 
 /**
  * @title Escrow
- * @dev Secure escrow contract for ERC20 token swaps
+ * @dev Secure escrow contract for swaps of ERC20 tokens, ERC721 items and ERC1155 tokens
  * @notice This contract allows users to create, complete, and cancel token swap operations
  *
  * Security features:
@@ -16,13 +24,24 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
  * - SafeERC20: Prevents issues with non-standard ERC20 tokens
  * - Checks-Effects-Interactions pattern
  * - Input validation on all functions
- * - Access control with Ownable
+ * - Access control with Ownable2Step, so ownership only moves to an account that accepts it
+ * - Optional EIP-2612 permits so approval and action fit in one transaction
+ * - Optional partial fills at the operation's fixed amountA/amountB rate
+ * - Optional counterparty, so a negotiated deal can only be taken by its partner
+ * - Owner-set protocol fee on tokenA payouts, capped at MAX_FEE_BPS
+ * - Emergency pause of creations and fills; cancelling and reclaiming keep working
+ * - Balance-delta accounting, so fee-on-transfer tokens cannot make the escrow insolvent
+ * - Either leg can be an ERC721 item or ERC1155 token from an owner-allowed collection
+ * - Native ETH on either leg, wrapped into and unwrapped from the WETH token set at deployment
  */
-contract Escrow is Ownable, ReentrancyGuard {
+contract Escrow is Ownable2Step, Pausable, ReentrancyGuard, ERC1155Holder {
     using SafeERC20 for IERC20;
 
-    // Operation status enum
-    enum OperationStatus { Active, Completed, Cancelled }
+    // Operation status enum (Expired: reclaimed by its creator after the deadline passed)
+    enum OperationStatus { Active, Completed, Cancelled, Expired }
+
+    // Kind of asset behind an allowed token address, fixed when it is listed
+    enum AssetType { ERC20, ERC721, ERC1155 }
 
     // Struct to store operation details
     struct Operation {
@@ -33,158 +52,441 @@ contract Escrow is Ownable, ReentrancyGuard {
         uint256 amountA;
         uint256 amountB;
         OperationStatus status;
-        address completer;
+        address completer; // account that made the final fill
+        uint256 deadline; // 0 = never expires
+        bool partiallyFillable;
+        uint256 minFill; // smallest tokenB fill accepted, except for the final remainder
+        uint256 filledA; // tokenA paid out so far
+        uint256 filledB; // tokenB received so far
+        address counterparty; // only address allowed to fill, address(0) = anyone
+        AssetType assetTypeA;
+        AssetType assetTypeB;
+        uint256 tokenIdA; // item or token id of an ERC721/ERC1155 tokenA, 0 for ERC20
+        uint256 tokenIdB; // item or token id of an ERC721/ERC1155 tokenB, 0 for ERC20
+    }
+
+    // Optional terms chosen when creating an operation
+    struct OperationOptions {
+        uint256 deadline; // last timestamp at which the operation can be filled, 0 = never expires
+        bool partiallyFillable;
+        uint256 minFill; // smallest tokenB fill accepted, except for the final remainder
+        address counterparty; // only address allowed to fill, address(0) = anyone
+        uint256 tokenIdA; // id of an ERC721/ERC1155 tokenA, ignored for ERC20
+        uint256 tokenIdB; // id of an ERC721/ERC1155 tokenB, ignored for ERC20
     }
 
+    // Protocol fee limits, in basis points of the tokenA paid out to fillers
+    uint256 public constant MAX_FEE_BPS = 500;
+    uint256 private constant BPS_DENOMINATOR = 10_000;
+
     // State variables
     uint256 private operationCounter;
-    mapping(uint256 => Operation) public operations;
+    mapping(uint256 => Operation) private operations;
     mapping(address => bool) public allowedTokens;
-    address[] private allowedTokensList;
+    mapping(address => AssetType) public assetTypes;
+    address[] private listedTokens; // every token ever allowed, delisted ones included
+
+    // Delisted tokens accept no new operations; live ones can still be cancelled or reclaimed,
+    // and filled only if the owner did not freeze them when delisting
+    mapping(address => bool) public delistedTokens;
+    mapping(address => bool) public frozenTokens;
     uint256[] private operationIds;
 
+    // Secondary indexes backing the paginated getters
+    mapping(address => uint256[]) private operationIdsByCreator;
+    mapping(OperationStatus => uint256[]) private operationIdsByStatus;
+    mapping(uint256 => uint256) private statusIndex;
+
+    // Protocol fee, taken from each tokenA payout and sent to feeRecipient
+    uint256 public feeBps;
+    address public feeRecipient;
+
+    // WETH-style token that stands in for native ETH; address(0) disables ETH legs.
+    // Operations trade it like any allowed token, but deposits may be paid in ETH and
+    // payouts to creators and fillers are unwrapped (fees stay wrapped)
+    IWETH public immutable weth;
+
     // Events
-    event TokenAdded(address indexed token);
+    event TokenAdded(address indexed token, AssetType assetType);
+    event TokenDelisted(address indexed token, bool completable);
     event OperationCreated(
         uint256 indexed operationId,
         address indexed creator,
         address tokenA,
         address tokenB,
         uint256 amountA,
-        uint256 amountB
+        uint256 amountB,
+        uint256 deadline,
+        bool partiallyFillable,
+        uint256 minFill,
+        address indexed counterparty
+    );
+    // Emitted after OperationCreated when either leg is an ERC721 or ERC1155 asset
+    event OperationAssets(
+        uint256 indexed operationId,
+        AssetType assetTypeA,
+        uint256 tokenIdA,
+        AssetType assetTypeB,
+        uint256 tokenIdB
+    );
+    event OperationFilled(
+        uint256 indexed operationId,
+        address indexed filler,
+        uint256 amountA,
+        uint256 amountB,
+        uint256 fee
     );
     event OperationCompleted(
         uint256 indexed operationId,
         address indexed completer
     );
     event OperationCancelled(uint256 indexed operationId);
+    event OperationReclaimed(uint256 indexed operationId, address indexed caller);
+    event FeeUpdated(uint256 oldFeeBps, uint256 newFeeBps);
+    event FeeRecipientUpdated(address indexed oldRecipient, address indexed newRecipient);
+
+    // Errors
+    error InvalidTokenAddress();
+    error TokenAlreadyAllowed(address token);
+    error TokenNotAllowed(address token);
+    error TokenFrozen(address token);
+    error IdenticalTokens(address token);
+    error ZeroAmount();
+    error OperationNotFound(uint256 operationId);
+    error OperationNotActive(uint256 operationId, OperationStatus status);
+    error CreatorCannotComplete(uint256 operationId);
+    error OnlyCreator(uint256 operationId, address caller);
+    error PermitFailed(address token);
+    error InvalidDeadline(uint256 deadline);
+    error OperationExpired(uint256 operationId, uint256 deadline);
+    error OperationNotExpired(uint256 operationId, uint256 deadline);
+    error InvalidMinFill(uint256 minFill, uint256 amountB);
+    error NotPartiallyFillable(uint256 operationId);
+    error InvalidFillAmount(uint256 operationId, uint256 amountB, uint256 remainingB);
+    error FillBelowMinimum(uint256 operationId, uint256 amountB, uint256 minFill);
+    error InvalidCounterparty(address counterparty);
+    error OnlyCounterparty(uint256 operationId, address caller);
+    error FeeTooHigh(uint256 feeBps, uint256 maxFeeBps);
+    error InvalidFeeRecipient();
+    error TokenBShortfall(uint256 operationId, uint256 expected, uint256 received);
+    error InvalidAssetType(address token, AssetType assetType);
+    error InvalidItemAmount(address token, uint256 amount);
+    error PartialFillUnsupported();
+    error NativeNotAccepted(address token);
+    error InvalidNativeAmount(uint256 sent, uint256 expected);
+    error UnexpectedNativeTransfer(address sender);
 
     /**
-     * @dev Constructor sets the initial owner
+     * @dev Constructor sets the initial owner, who also receives fees until told otherwise
+     * @param _weth WETH-style token used for native ETH legs, or address(0) for none
      */
-    constructor() Ownable(msg.sender) {
+    constructor(address _weth) Ownable(msg.sender) {
         operationCounter = 0;
+        feeRecipient = msg.sender;
+        weth = IWETH(_weth);
+
+        emit FeeRecipientUpdated(address(0), msg.sender);
+    }
+
+    /**
+     * @dev Only WETH sends ETH here, when the escrow unwraps a payout
+     */
+    receive() external payable {
+        if (msg.sender != address(weth)) revert UnexpectedNativeTransfer(msg.sender);
     }
 
     /**
      * @notice Add a token to the list of allowed tokens
+     * @dev Also re-lists a delisted token, which unfreezes its live operations.
+     * Collections are rejected: they must go through addCollection.
      * @param _token Address of the ERC20 token to allow
      */
     function addToken(address _token) external onlyOwner {
-        require(_token != address(0), "Invalid token address");
-        require(!allowedTokens[_token], "Token already allowed");
+        if (
+            ERC165Checker.supportsInterface(_token, type(IERC721).interfaceId) ||
+            ERC165Checker.supportsInterface(_token, type(IERC1155).interfaceId)
+        ) {
+            revert InvalidAssetType(_token, AssetType.ERC20);
+        }
 
-        allowedTokens[_token] = true;
-        allowedTokensList.push(_token);
+        _addToken(_token, AssetType.ERC20);
+    }
+
+    /**
+     * @notice Allow an ERC721 or ERC1155 collection, whose items can then be traded like tokens
+     * @dev The collection must report the matching interface through ERC-165.
+     * Also re-lists a delisted collection.
+     * @param _collection Address of the collection
+     * @param _assetType ERC721 or ERC1155
+     */
+    function addCollection(address _collection, AssetType _assetType) external onlyOwner {
+        if (_collection == address(0)) revert InvalidTokenAddress();
+        bytes4 interfaceId = _assetType == AssetType.ERC721 ? type(IERC721).interfaceId : type(IERC1155).interfaceId;
+        if (_assetType == AssetType.ERC20 || !ERC165Checker.supportsInterface(_collection, interfaceId)) {
+            revert InvalidAssetType(_collection, _assetType);
+        }
+
+        _addToken(_collection, _assetType);
+    }
+
+    /**
+     * @notice Delist a token so no new operations can use it
+     * @dev Active operations involving the token can always be cancelled or reclaimed
+     * @param _token Address of the allowed token to delist
+     * @param _completable Whether active operations involving the token can still be filled
+     */
+    function removeToken(address _token, bool _completable) external onlyOwner {
+        if (!allowedTokens[_token]) revert TokenNotAllowed(_token);
+
+        allowedTokens[_token] = false;
+        delistedTokens[_token] = true;
+        frozenTokens[_token] = !_completable;
+
+        emit TokenDelisted(_token, _completable);
+    }
+
+    /**
+     * @notice Set the protocol fee taken from tokenA payouts
+     * @dev Applies to every fill from now on, including fills of existing operations
+     * @param _feeBps New fee in basis points, at most MAX_FEE_BPS
+     */
+    function setFee(uint256 _feeBps) external onlyOwner {
+        if (_feeBps > MAX_FEE_BPS) revert FeeTooHigh(_feeBps, MAX_FEE_BPS);
+
+        uint256 oldFeeBps = feeBps;
+        feeBps = _feeBps;
+
+        emit FeeUpdated(oldFeeBps, _feeBps);
+    }
+
+    /**
+     * @notice Set the address that receives protocol fees
+     * @dev A contract recipient must accept ERC1155 transfers to collect fees on ERC1155 payouts
+     * @param _feeRecipient New fee recipient
+     */
+    function setFeeRecipient(address _feeRecipient) external onlyOwner {
+        if (_feeRecipient == address(0)) revert InvalidFeeRecipient();
+
+        address oldRecipient = feeRecipient;
+        feeRecipient = _feeRecipient;
 
-        emit TokenAdded(_token);
+        emit FeeRecipientUpdated(oldRecipient, _feeRecipient);
+    }
+
+    /**
+     * @notice Stop new operations and fills until unpaused
+     * @dev Cancelling and reclaiming stay available so users can always withdraw their tokenA
+     */
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    /**
+     * @notice Resume new operations and fills
+     */
+    function unpause() external onlyOwner {
+        _unpause();
     }
 
     /**
-     * @notice Create a new swap operation
+     * @notice Create a new swap operation that never expires and anyone can complete
      * @param _tokenA Address of the token to deposit
      * @param _tokenB Address of the token to receive
      * @param _amountA Amount of tokenA to deposit
      * @param _amountB Amount of tokenB requested
+     * @dev Send `_amountA` as ETH instead of approving WETH when tokenA is the WETH token
      */
     function createOperation(
         address _tokenA,
         address _tokenB,
         uint256 _amountA,
         uint256 _amountB
-    ) external nonReentrant {
-        // Input validation
-        require(allowedTokens[_tokenA], "TokenA not allowed");
-        require(allowedTokens[_tokenB], "TokenB not allowed");
-        require(_tokenA != _tokenB, "Tokens must be different");
-        require(_amountA > 0, "AmountA must be greater than 0");
-        require(_amountB > 0, "AmountB must be greater than 0");
-
-        // Transfer tokenA from user to contract (user must have approved first)
-        IERC20(_tokenA).safeTransferFrom(msg.sender, address(this), _amountA);
-
-        // Create operation
-        uint256 newOperationId = operationCounter;
-        operations[newOperationId] = Operation({
-            id: newOperationId,
-            creator: msg.sender,
-            tokenA: _tokenA,
-            tokenB: _tokenB,
-            amountA: _amountA,
-            amountB: _amountB,
-            status: OperationStatus.Active,
-            completer: address(0)
-        });
+    ) external payable whenNotPaused nonReentrant {
+        OperationOptions memory options;
+        _createOperation(_tokenA, _tokenB, _amountA, _amountB, options);
+    }
 
-        operationIds.push(newOperationId);
-        operationCounter++;
+    /**
+     * @notice Create a new swap operation with a deadline, partial fills or a counterparty
+     * @param _tokenA Address of the token to deposit
+     * @param _tokenB Address of the token to receive
+     * @param _amountA Amount of tokenA to deposit
+     * @param _amountB Amount of tokenB requested
+     * @param _options Optional terms of the operation
+     * @dev Send `_amountA` as ETH instead of approving WETH when tokenA is the WETH token
+     */
+    function createOperation(
+        address _tokenA,
+        address _tokenB,
+        uint256 _amountA,
+        uint256 _amountB,
+        OperationOptions calldata _options
+    ) external payable whenNotPaused nonReentrant {
+        _createOperation(_tokenA, _tokenB, _amountA, _amountB, _options);
+    }
 
-        emit OperationCreated(
-            newOperationId,
-            msg.sender,
-            _tokenA,
-            _tokenB,
-            _amountA,
-            _amountB
-        );
+    /**
+     * @notice Create a new swap operation, approving tokenA with an EIP-2612 permit
+     * @param _tokenA Address of the token to deposit (must support EIP-2612)
+     * @param _tokenB Address of the token to receive
+     * @param _amountA Amount of tokenA to deposit, and the permitted allowance
+     * @param _amountB Amount of tokenB requested
+     * @param _options Optional terms of the operation
+     * @param _permitDeadline Expiry timestamp of the permit signature
+     * @param _v Signature v
+     * @param _r Signature r
+     * @param _s Signature s
+     */
+    function createOperationWithPermit(
+        address _tokenA,
+        address _tokenB,
+        uint256 _amountA,
+        uint256 _amountB,
+        OperationOptions calldata _options,
+        uint256 _permitDeadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external whenNotPaused nonReentrant {
+        _permit(_tokenA, _amountA, _permitDeadline, _v, _r, _s);
+        _createOperation(_tokenA, _tokenB, _amountA, _amountB, _options);
     }
 
     /**
-     * @notice Complete a swap operation
+     * @notice Complete a swap operation, supplying whatever tokenB is still outstanding
+     * @dev When tokenB is the WETH token the outstanding amount can be sent as ETH instead
      * @param _operationId ID of the operation to complete
      */
-    function completeOperation(uint256 _operationId) external nonReentrant {
-        Operation storage operation = operations[_operationId];
+    function completeOperation(uint256 _operationId) external payable whenNotPaused nonReentrant {
+        Operation storage operation = _existingOperation(_operationId);
 
-        // Validation checks
-        require(operation.creator != address(0), "Operation does not exist");
-        require(operation.status == OperationStatus.Active, "Operation not active");
-        require(msg.sender != operation.creator, "Creator cannot complete own operation");
+        _fillOperation(_operationId, operation.amountB - operation.filledB);
+    }
 
-        // Update state before external calls (Checks-Effects-Interactions)
-        operation.status = OperationStatus.Completed;
-        operation.completer = msg.sender;
+    /**
+     * @notice Complete a swap operation, approving tokenB with an EIP-2612 permit
+     * @param _operationId ID of the operation to complete
+     * @param _permitDeadline Expiry timestamp of the permit signature
+     * @param _v Signature v
+     * @param _r Signature r
+     * @param _s Signature s
+     */
+    function completeOperationWithPermit(
+        uint256 _operationId,
+        uint256 _permitDeadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external whenNotPaused nonReentrant {
+        Operation storage operation = _existingOperation(_operationId);
+        uint256 remainingB = operation.amountB - operation.filledB;
+
+        _permit(operation.tokenB, remainingB, _permitDeadline, _v, _r, _s);
+        _fillOperation(_operationId, remainingB);
+    }
 
-        // Transfer tokenB from completer to creator
-        IERC20(operation.tokenB).safeTransferFrom(
-            msg.sender,
-            operation.creator,
-            operation.amountB
-        );
+    /**
+     * @notice Fill part of a partially fillable operation
+     * @dev The fill pays out `_amountB * amountA / amountB` of tokenA, rounded down;
+     * the fill that closes the operation pays out exactly the tokenA that is left.
+     * The protocol fee is deducted from that payout. When tokenB is the WETH token,
+     * `_amountB` can be sent as ETH instead.
+     * @param _operationId ID of the operation to fill
+     * @param _amountB Amount of tokenB to supply
+     */
+    function fillOperation(uint256 _operationId, uint256 _amountB) external payable whenNotPaused nonReentrant {
+        _fillOperation(_operationId, _amountB);
+    }
 
-        // Transfer tokenA from contract to completer
-        IERC20(operation.tokenA).safeTransfer(msg.sender, operation.amountA);
+    /**
+     * @notice Fill part of a partially fillable operation, approving tokenB with an EIP-2612 permit
+     * @param _operationId ID of the operation to fill
+     * @param _amountB Amount of tokenB to supply, and the permitted allowance
+     * @param _permitDeadline Expiry timestamp of the permit signature
+     * @param _v Signature v
+     * @param _r Signature r
+     * @param _s Signature s
+     */
+    function fillOperationWithPermit(
+        uint256 _operationId,
+        uint256 _amountB,
+        uint256 _permitDeadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external whenNotPaused nonReentrant {
+        Operation storage operation = _existingOperation(_operationId);
+
+        _permit(operation.tokenB, _amountB, _permitDeadline, _v, _r, _s);
+        _fillOperation(_operationId, _amountB);
+    }
 
-        emit OperationCompleted(_operationId, msg.sender);
+    /**
+     * @notice Amount of tokenA a fill of `_amountB` tokenB would pay out right now
+     * @param _operationId ID of the operation
+     * @param _amountB Amount of tokenB to supply
+     * @return Amount of tokenA the filler would receive, after the protocol fee
+     */
+    function previewFill(uint256 _operationId, uint256 _amountB) external view returns (uint256) {
+        Operation storage operation = _existingOperation(_operationId);
+        uint256 amountA = _fillAmountA(operation, _amountB);
+        return amountA - _feeOn(operation, amountA);
     }
 
     /**
-     * @notice Cancel an active operation and return tokens to creator
+     * @notice Cancel an active operation and return the unfilled tokens to creator
      * @param _operationId ID of the operation to cancel
      */
     function cancelOperation(uint256 _operationId) external nonReentrant {
-        Operation storage operation = operations[_operationId];
+        Operation storage operation = _activeOperation(_operationId);
 
         // Validation checks
-        require(operation.creator != address(0), "Operation does not exist");
-        require(operation.status == OperationStatus.Active, "Operation not active");
-        require(msg.sender == operation.creator, "Only creator can cancel");
+        if (msg.sender != operation.creator) revert OnlyCreator(_operationId, msg.sender);
 
         // Update state before external calls (Checks-Effects-Interactions)
-        operation.status = OperationStatus.Cancelled;
+        _setStatus(operation, OperationStatus.Cancelled);
 
-        // Return tokenA to creator
-        IERC20(operation.tokenA).safeTransfer(operation.creator, operation.amountA);
+        // Return the unfilled tokenA to creator
+        _transferAsset(operation, true, address(this), operation.creator, operation.amountA - operation.filledA);
 
         emit OperationCancelled(_operationId);
     }
 
+    /**
+     * @notice Return the unfilled tokenA to the creator of an operation whose deadline has passed
+     * @dev Anyone can call this, so expired offers never keep funds locked
+     * @param _operationId ID of the expired operation
+     */
+    function reclaimExpired(uint256 _operationId) external nonReentrant {
+        Operation storage operation = _activeOperation(_operationId);
+
+        // Validation checks
+        if (!_isExpired(operation)) revert OperationNotExpired(_operationId, operation.deadline);
+
+        // Update state before external calls (Checks-Effects-Interactions)
+        _setStatus(operation, OperationStatus.Expired);
+
+        // Return the unfilled tokenA to creator
+        _transferAsset(operation, true, address(this), operation.creator, operation.amountA - operation.filledA);
+
+        emit OperationReclaimed(_operationId, msg.sender);
+    }
+
     /**
      * @notice Get all allowed tokens
      * @return Array of allowed token addresses
      */
     function getAllowedTokens() external view returns (address[] memory) {
-        return allowedTokensList;
+        return _listedTokens(false);
+    }
+
+    /**
+     * @notice Get all delisted tokens
+     * @dev Use frozenTokens to tell whether their live operations can still be filled
+     * @return Array of delisted token addresses
+     */
+    function getDelistedTokens() external view returns (address[] memory) {
+        return _listedTokens(true);
     }
 
     /**
@@ -201,14 +503,76 @@ contract Escrow is Ownable, ReentrancyGuard {
         return allOperations;
     }
 
+    /**
+     * @notice Get a page of operations in creation order
+     * @param _offset Number of operations to skip
+     * @param _limit Maximum number of operations to return
+     * @return Array of operations
+     */
+    function getOperationsPaginated(uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (Operation[] memory)
+    {
+        return _page(operationIds, _offset, _limit);
+    }
+
+    /**
+     * @notice Get a page of the operations created by an address, in creation order
+     * @param _creator Address of the creator
+     * @param _offset Number of operations to skip
+     * @param _limit Maximum number of operations to return
+     * @return Array of operations
+     */
+    function getOperationsByCreator(address _creator, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (Operation[] memory)
+    {
+        return _page(operationIdsByCreator[_creator], _offset, _limit);
+    }
+
+    /**
+     * @notice Get a page of the operations currently in a given status
+     * @dev Order within a status is not stable: leaving a status swaps the last entry into the gap
+     * @param _status Status to filter by
+     * @param _offset Number of operations to skip
+     * @param _limit Maximum number of operations to return
+     * @return Array of operations
+     */
+    function getOperationsByStatus(OperationStatus _status, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (Operation[] memory)
+    {
+        return _page(operationIdsByStatus[_status], _offset, _limit);
+    }
+
+    /**
+     * @notice Get the number of operations created by an address
+     * @param _creator Address of the creator
+     * @return Number of operations
+     */
+    function getOperationCountByCreator(address _creator) external view returns (uint256) {
+        return operationIdsByCreator[_creator].length;
+    }
+
+    /**
+     * @notice Get the number of operations currently in a given status
+     * @param _status Status to count
+     * @return Number of operations
+     */
+    function getOperationCountByStatus(OperationStatus _status) external view returns (uint256) {
+        return operationIdsByStatus[_status].length;
+    }
+
     /**
      * @notice Get operation by ID
      * @param _operationId ID of the operation
      * @return Operation struct
      */
     function getOperation(uint256 _operationId) external view returns (Operation memory) {
-        require(operations[_operationId].creator != address(0), "Operation does not exist");
-        return operations[_operationId];
+        return _existingOperation(_operationId);
     }
 
     /**
@@ -218,4 +582,395 @@ contract Escrow is Ownable, ReentrancyGuard {
     function getOperationCount() external view returns (uint256) {
         return operationCounter;
     }
+
+    // Internal helpers
+
+    /**
+     * @dev Shared implementation of createOperation and createOperationWithPermit
+     */
+    function _createOperation(
+        address _tokenA,
+        address _tokenB,
+        uint256 _amountA,
+        uint256 _amountB,
+        OperationOptions memory _options
+    ) private {
+        // Input validation
+        if (!allowedTokens[_tokenA]) revert TokenNotAllowed(_tokenA);
+        if (!allowedTokens[_tokenB]) revert TokenNotAllowed(_tokenB);
+        if (_tokenA == _tokenB) revert IdenticalTokens(_tokenA);
+        if (_amountA == 0 || _amountB == 0) revert ZeroAmount();
+        if (_options.deadline != 0 && _options.deadline <= block.timestamp) {
+            revert InvalidDeadline(_options.deadline);
+        }
+        if (_options.minFill > _amountB) revert InvalidMinFill(_options.minFill, _amountB);
+        if (_options.counterparty == msg.sender) revert InvalidCounterparty(_options.counterparty);
+
+        // Create operation
+        uint256 newOperationId = operationCounter;
+        Operation storage operation = operations[newOperationId];
+        operation.id = newOperationId;
+        operation.creator = msg.sender;
+        operation.tokenA = _tokenA;
+        operation.tokenB = _tokenB;
+        operation.amountB = _amountB;
+        operation.deadline = _options.deadline;
+        operation.partiallyFillable = _options.partiallyFillable;
+        operation.minFill = _options.minFill;
+        operation.counterparty = _options.counterparty;
+        bool hasItems = _setAssets(operation, _amountA, _options);
+
+        // Transfer tokenA from user to contract (user must have approved first) and record
+        // what actually arrived, which is less than _amountA for fee-on-transfer tokens
+        uint256 receivedA = _deposit(operation, _amountA);
+        if (receivedA == 0) revert ZeroAmount();
+        operation.amountA = receivedA;
+
+        operationIds.push(newOperationId);
+        operationIdsByCreator[msg.sender].push(newOperationId);
+        statusIndex[newOperationId] = operationIdsByStatus[OperationStatus.Active].length;
+        operationIdsByStatus[OperationStatus.Active].push(newOperationId);
+        operationCounter++;
+
+        emit OperationCreated(
+            newOperationId,
+            msg.sender,
+            _tokenA,
+            _tokenB,
+            receivedA,
+            _amountB,
+            _options.deadline,
+            _options.partiallyFillable,
+            _options.minFill,
+            _options.counterparty
+        );
+        if (hasItems) {
+            emit OperationAssets(
+                newOperationId, operation.assetTypeA, operation.tokenIdA, operation.assetTypeB, operation.tokenIdB
+            );
+        }
+    }
+
+    /**
+     * @dev Shared implementation of the complete and fill entry points.
+     * Only the fill that takes the whole remainder is allowed on operations that are not
+     * partially fillable, and only that fill may go below the minimum.
+     */
+    function _fillOperation(uint256 _operationId, uint256 _amountB) private {
+        Operation storage operation = _activeOperation(_operationId);
+        uint256 remainingB = operation.amountB - operation.filledB;
+
+        // Validation checks
+        if (msg.sender == operation.creator) revert CreatorCannotComplete(_operationId);
+        if (operation.counterparty != address(0) && msg.sender != operation.counterparty) {
+            revert OnlyCounterparty(_operationId, msg.sender);
+        }
+        if (_isExpired(operation)) revert OperationExpired(_operationId, operation.deadline);
+        if (frozenTokens[operation.tokenA]) revert TokenFrozen(operation.tokenA);
+        if (frozenTokens[operation.tokenB]) revert TokenFrozen(operation.tokenB);
+        if (_amountB == 0 || _amountB > remainingB) revert InvalidFillAmount(_operationId, _amountB, remainingB);
+        if (_amountB < remainingB) {
+            if (!operation.partiallyFillable) revert NotPartiallyFillable(_operationId);
+            if (_amountB < operation.minFill) revert FillBelowMinimum(_operationId, _amountB, operation.minFill);
+        }
+
+        uint256 amountA = _fillAmountA(operation, _amountB);
+        if (amountA == 0) revert InvalidFillAmount(_operationId, _amountB, remainingB);
+        uint256 fee = _feeOn(operation, amountA);
+
+        // Update state before external calls (Checks-Effects-Interactions)
+        operation.filledA += amountA;
+        operation.filledB += _amountB;
+        bool completed = operation.filledB == operation.amountB;
+        if (completed) {
+            _setStatus(operation, OperationStatus.Completed);
+            operation.completer = msg.sender;
+        }
+
+        // Transfer tokenB from filler to creator, who must receive all of it
+        _payCreator(operation, _amountB);
+
+        // Transfer tokenA from contract to filler, minus the protocol fee
+        _transferAsset(operation, true, address(this), msg.sender, amountA - fee);
+        if (fee > 0) {
+            _payFee(operation, fee);
+        }
+
+        emit OperationFilled(_operationId, msg.sender, amountA, _amountB, fee);
+        if (completed) {
+            emit OperationCompleted(_operationId, msg.sender);
+        }
+    }
+
+    /**
+     * @dev tokenA paid out for a fill of `_amountB`: pro rata and rounded down in the
+     * creator's favour, except that taking the whole remainder empties the operation
+     */
+    function _fillAmountA(Operation storage _operation, uint256 _amountB) private view returns (uint256) {
+        uint256 remainingB = _operation.amountB - _operation.filledB;
+        if (_amountB >= remainingB) {
+            return _operation.amountA - _operation.filledA;
+        }
+        return Math.mulDiv(_amountB, _operation.amountA, _operation.amountB);
+    }
+
+    /**
+     * @dev Listed tokens that are currently delisted, or currently allowed
+     */
+    function _listedTokens(bool _delisted) private view returns (address[] memory tokens) {
+        uint256 count;
+        for (uint256 i = 0; i < listedTokens.length; i++) {
+            if (delistedTokens[listedTokens[i]] == _delisted) count++;
+        }
+
+        tokens = new address[](count);
+        uint256 next;
+        for (uint256 i = 0; i < listedTokens.length; i++) {
+            if (delistedTokens[listedTokens[i]] == _delisted) tokens[next++] = listedTokens[i];
+        }
+    }
+
+    /**
+     * @dev Protocol fee on a tokenA payout, rounded down in the filler's favour.
+     * ERC20 and ERC1155 amounts are charged; a single ERC721 item cannot be split.
+     */
+    function _feeOn(Operation storage _operation, uint256 _amountA) private view returns (uint256) {
+        if (_operation.assetTypeA == AssetType.ERC721) return 0;
+        return _amountA * feeBps / BPS_DENOMINATOR;
+    }
+
+    /**
+     * @dev Send a protocol fee in tokenA to the fee recipient. Fees are never unwrapped,
+     * so ETH fees stay in WETH.
+     */
+    function _payFee(Operation storage _operation, uint256 _fee) private {
+        if (_operation.assetTypeA == AssetType.ERC1155) {
+            IERC1155(_operation.tokenA).safeTransferFrom(address(this), feeRecipient, _operation.tokenIdA, _fee, "");
+        } else {
+            IERC20(_operation.tokenA).safeTransfer(feeRecipient, _fee);
+        }
+    }
+
+    /**
+     * @dev Shared implementation of addToken and addCollection. A delisted token keeps its
+     * asset type, since its live operations were created with it.
+     */
+    function _addToken(address _token, AssetType _assetType) private {
+        if (_token == address(0)) revert InvalidTokenAddress();
+        if (allowedTokens[_token]) revert TokenAlreadyAllowed(_token);
+        if (delistedTokens[_token] && assetTypes[_token] != _assetType) revert InvalidAssetType(_token, _assetType);
+
+        allowedTokens[_token] = true;
+        assetTypes[_token] = _assetType;
+        if (delistedTokens[_token]) {
+            delistedTokens[_token] = false;
+            frozenTokens[_token] = false;
+        } else {
+            listedTokens.push(_token);
+        }
+
+        emit TokenAdded(_token, _assetType);
+    }
+
+    /**
+     * @dev Record the asset type and id of both legs of a new operation, returning whether
+     * either leg is an item. An ERC721 leg is a single item, which cannot be filled in parts.
+     */
+    function _setAssets(Operation storage _operation, uint256 _amountA, OperationOptions memory _options)
+        private
+        returns (bool hasItems)
+    {
+        AssetType assetTypeA = assetTypes[_operation.tokenA];
+        AssetType assetTypeB = assetTypes[_operation.tokenB];
+
+        if (assetTypeA == AssetType.ERC721 && _amountA != 1) revert InvalidItemAmount(_operation.tokenA, _amountA);
+        if (assetTypeB == AssetType.ERC721 && _operation.amountB != 1) {
+            revert InvalidItemAmount(_operation.tokenB, _operation.amountB);
+        }
+        if (_options.partiallyFillable && (assetTypeA == AssetType.ERC721 || assetTypeB == AssetType.ERC721)) {
+            revert PartialFillUnsupported();
+        }
+
+        _operation.assetTypeA = assetTypeA;
+        _operation.assetTypeB = assetTypeB;
+        if (assetTypeA != AssetType.ERC20) _operation.tokenIdA = _options.tokenIdA;
+        if (assetTypeB != AssetType.ERC20) _operation.tokenIdB = _options.tokenIdB;
+
+        return assetTypeA != AssetType.ERC20 || assetTypeB != AssetType.ERC20;
+    }
+
+    /**
+     * @dev Pull tokenA from the creator and return how much arrived. ERC20 deposits are
+     * measured by balance delta; items and ETH wrapped into WETH always arrive in full.
+     */
+    function _deposit(Operation storage _operation, uint256 _amountA) private returns (uint256) {
+        if (msg.value != 0) {
+            if (_operation.tokenA != address(weth)) revert NativeNotAccepted(_operation.tokenA);
+            if (msg.value != _amountA) revert InvalidNativeAmount(msg.value, _amountA);
+            weth.deposit{value: msg.value}();
+            return _amountA;
+        }
+        if (_operation.assetTypeA != AssetType.ERC20) {
+            _transferAsset(_operation, true, msg.sender, address(this), _amountA);
+            return _amountA;
+        }
+
+        IERC20 tokenA = IERC20(_operation.tokenA);
+        uint256 balanceBefore = tokenA.balanceOf(address(this));
+        tokenA.safeTransferFrom(msg.sender, address(this), _amountA);
+        return tokenA.balanceOf(address(this)) - balanceBefore;
+    }
+
+    /**
+     * @dev Move tokenB from the filler to the creator, reverting when an ERC20 arrives short.
+     * A WETH tokenB reaches the creator as ETH, whether the filler paid in ETH or in WETH.
+     */
+    function _payCreator(Operation storage _operation, uint256 _amountB) private {
+        if (_operation.tokenB == address(weth)) {
+            if (msg.value == 0) {
+                IERC20(address(weth)).safeTransferFrom(msg.sender, address(this), _amountB);
+                weth.withdraw(_amountB);
+            } else if (msg.value != _amountB) {
+                revert InvalidNativeAmount(msg.value, _amountB);
+            }
+            _sendNative(_operation.creator, _amountB);
+            return;
+        }
+        if (msg.value != 0) revert NativeNotAccepted(_operation.tokenB);
+
+        if (_operation.assetTypeB != AssetType.ERC20) {
+            _transferAsset(_operation, false, msg.sender, _operation.creator, _amountB);
+            return;
+        }
+
+        IERC20 tokenB = IERC20(_operation.tokenB);
+        uint256 creatorBalanceBefore = tokenB.balanceOf(_operation.creator);
+        tokenB.safeTransferFrom(msg.sender, _operation.creator, _amountB);
+        uint256 receivedB = tokenB.balanceOf(_operation.creator) - creatorBalanceBefore;
+        if (receivedB < _amountB) revert TokenBShortfall(_operation.id, _amountB, receivedB);
+    }
+
+    /**
+     * @dev Transfer `_amount` of one leg of an operation. ERC721 items move with plain
+     * transferFrom, so recipients need no receiver hook; ERC1155 transfers are always safe.
+     */
+    function _transferAsset(Operation storage _operation, bool _legA, address _from, address _to, uint256 _amount)
+        private
+    {
+        address token = _legA ? _operation.tokenA : _operation.tokenB;
+        AssetType assetType = _legA ? _operation.assetTypeA : _operation.assetTypeB;
+        uint256 tokenId = _legA ? _operation.tokenIdA : _operation.tokenIdB;
+
+        if (assetType == AssetType.ERC721) {
+            IERC721(token).transferFrom(_from, _to, tokenId);
+        } else if (assetType == AssetType.ERC1155) {
+            IERC1155(token).safeTransferFrom(_from, _to, tokenId, _amount, "");
+        } else if (token == address(weth)) {
+            // WETH payouts reach creators and fillers as ETH
+            weth.withdraw(_amount);
+            _sendNative(_to, _amount);
+        } else {
+            // ERC20 deposits are measured separately, so only payouts come through here
+            IERC20(token).safeTransfer(_to, _amount);
+        }
+    }
+
+    /**
+     * @dev Send ETH the escrow holds. Recipients that reject ETH get WETH instead, so a
+     * contract without a receive function can never block its own operations.
+     */
+    function _sendNative(address _to, uint256 _amount) private {
+        (bool sent, ) = _to.call{value: _amount}("");
+        if (!sent) {
+            weth.deposit{value: _amount}();
+            IERC20(address(weth)).safeTransfer(_to, _amount);
+        }
+    }
+
+    /**
+     * @dev Spend an EIP-2612 permit for msg.sender -> this contract.
+     * A failing permit is tolerated when the allowance is already in place, so a
+     * signature front-run by someone else cannot block the operation.
+     */
+    function _permit(
+        address _token,
+        uint256 _value,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) private {
+        try IERC20Permit(_token).permit(msg.sender, address(this), _value, _deadline, _v, _r, _s) {
+            return;
+        } catch {
+            if (IERC20(_token).allowance(msg.sender, address(this)) < _value) {
+                revert PermitFailed(_token);
+            }
+        }
+    }
+
+    /**
+     * @dev Load an operation, reverting when the id was never created
+     */
+    function _existingOperation(uint256 _operationId) private view returns (Operation storage operation) {
+        operation = operations[_operationId];
+        if (operation.creator == address(0)) revert OperationNotFound(_operationId);
+    }
+
+    /**
+     * @dev Load an operation, reverting unless it exists and is still active
+     */
+    function _activeOperation(uint256 _operationId) private view returns (Operation storage operation) {
+        operation = _existingOperation(_operationId);
+        if (operation.status != OperationStatus.Active) {
+            revert OperationNotActive(_operationId, operation.status);
+        }
+    }
+
+    /**
+     * @dev Whether an operation's deadline has passed (operations without one never expire)
+     */
+    function _isExpired(Operation storage _operation) private view returns (bool) {
+        return _operation.deadline != 0 && block.timestamp > _operation.deadline;
+    }
+
+    /**
+     * @dev Move an operation to a new status, keeping the per-status index in sync
+     */
+    function _setStatus(Operation storage _operation, OperationStatus _newStatus) private {
+        uint256[] storage fromList = operationIdsByStatus[_operation.status];
+        uint256 index = statusIndex[_operation.id];
+        uint256 lastId = fromList[fromList.length - 1];
+
+        // Swap and pop
+        fromList[index] = lastId;
+        statusIndex[lastId] = index;
+        fromList.pop();
+
+        statusIndex[_operation.id] = operationIdsByStatus[_newStatus].length;
+        operationIdsByStatus[_newStatus].push(_operation.id);
+        _operation.status = _newStatus;
+    }
+
+    /**
+     * @dev Load the operations for a slice of an id list, clamped to its bounds
+     */
+    function _page(uint256[] storage _ids, uint256 _offset, uint256 _limit)
+        private
+        view
+        returns (Operation[] memory)
+    {
+        if (_offset >= _ids.length) {
+            return new Operation[](0);
+        }
+
+        uint256 end = _limit > _ids.length - _offset ? _ids.length : _offset + _limit;
+
+        Operation[] memory page = new Operation[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = operations[_ids[i]];
+        }
+
+        return page;
+    }
 }
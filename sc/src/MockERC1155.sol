@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockERC1155
+ * @dev Simple ERC1155 collection for testing purposes. Exposes a name and symbol
+ * like most deployed collections, although the standard does not require them.
+ */
+contract MockERC1155 is ERC1155, Ownable {
+    string public name;
+    string public symbol;
+
+    /**
+     * @param _name Collection name
+     * @param _symbol Collection symbol
+     */
+    constructor(string memory _name, string memory _symbol) ERC1155("") Ownable(msg.sender) {
+        name = _name;
+        symbol = _symbol;
+    }
+
+    /**
+     * @notice Mint tokens of one id (only owner)
+     * @param to Address to receive the tokens
+     * @param id Token id
+     * @param amount Amount of tokens to mint
+     */
+    function mint(address to, uint256 id, uint256 amount) external onlyOwner {
+        _mint(to, id, amount, "");
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockERC721
+ * @dev Simple ERC721 collection with sequential item ids for testing purposes
+ */
+contract MockERC721 is ERC721, Ownable {
+    uint256 public nextTokenId;
+
+    /**
+     * @param name Collection name
+     * @param symbol Collection symbol
+     */
+    constructor(string memory name, string memory symbol) ERC721(name, symbol) Ownable(msg.sender) {}
+
+    /**
+     * @notice Mint the next item (only owner)
+     * @param to Address to receive the item
+     * @return tokenId Id of the new item
+     */
+    function mint(address to) external onlyOwner returns (uint256 tokenId) {
+        tokenId = nextTokenId++;
+        _mint(to, tokenId);
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockTaxedToken
+ * @dev Deflationary ERC20 for testing: every transfer burns a share of the amount sent,
+ * so the recipient gets less than the sender pays
+ */
+contract MockTaxedToken is ERC20 {
+    uint256 public immutable taxBps;
+
+    /**
+     * @dev Constructor that gives msg.sender all of existing tokens
+     * @param name Token name
+     * @param symbol Token symbol
+     * @param initialSupply Initial supply of tokens (with decimals)
+     * @param _taxBps Share of each transfer that is burned, in basis points
+     */
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        uint256 _taxBps
+    ) ERC20(name, symbol) {
+        taxBps = _taxBps;
+        _mint(msg.sender, initialSupply);
+    }
+
+    /**
+     * @dev Burns the tax on transfers; minting and burning are untaxed
+     */
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0)) {
+            super._update(from, to, value);
+            return;
+        }
+
+        uint256 tax = (value * taxBps) / 10_000;
+        super._update(from, address(0), tax);
+        super._update(from, to, value - tax);
+    }
+}
@@ -2,13 +2,14 @@
 pragma solidity 0.8.28;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 /**
  * @title MockToken
- * @dev Simple ERC20 token for testing purposes
+ * @dev Simple ERC20 token with EIP-2612 permit support for testing purposes
  */
-contract MockToken is ERC20, Ownable {
+contract MockToken is ERC20, ERC20Permit, Ownable {
     /**
      * @dev Constructor that gives msg.sender all of existing tokens
      * @param name Token name
@@ -19,7 +20,7 @@ contract MockToken is ERC20, Ownable {
         string memory name,
         string memory symbol,
         uint256 initialSupply
-    ) ERC20(name, symbol) Ownable(msg.sender) {
+    ) ERC20(name, symbol) ERC20Permit(name) Ownable(msg.sender) {
         _mint(msg.sender, initialSupply);
     }
 
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "./IWETH.sol";
+
+/**
+ * @title MockWETH
+ * @dev Minimal WETH9 for local chains and tests: 18 decimals, wrapped 1:1 with ETH
+ */
+contract MockWETH is ERC20, IWETH {
+    error WithdrawFailed();
+
+    constructor() ERC20("Wrapped Ether", "WETH") {}
+
+    /**
+     * @dev Plain ETH transfers wrap like deposit()
+     */
+    receive() external payable {
+        deposit();
+    }
+
+    /**
+     * @notice Wrap the ETH sent with the call
+     */
+    function deposit() public payable {
+        _mint(msg.sender, msg.value);
+    }
+
+    /**
+     * @notice Unwrap `amount` tokens back into ETH
+     * @param amount Amount to unwrap
+     */
+    function withdraw(uint256 amount) external {
+        _burn(msg.sender, amount);
+        (bool sent, ) = msg.sender.call{value: amount}("");
+        if (!sent) revert WithdrawFailed();
+    }
+}
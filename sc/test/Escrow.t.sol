@@ -3,13 +3,19 @@ pragma solidity 0.8.28;
 
 import "forge-std/Test.sol";
 import "../src/Escrow.sol";
+import "../src/MockERC1155.sol";
+import "../src/MockERC721.sol";
+import "../src/MockTaxedToken.sol";
 import "../src/MockToken.sol";
+import "../src/MockWETH.sol";
+import "@openzeppelin/contracts/interfaces/draft-IERC6093.sol";
 
 contract EscrowTest is Test {
     Escrow public escrow;
     MockToken public tokenA;
     MockToken public tokenB;
     MockToken public tokenC;
+    MockWETH public weth;
 
     address public owner;
     address public user1;
@@ -18,20 +24,44 @@ contract EscrowTest is Test {
 
     uint256 constant INITIAL_BALANCE = 10000 * 10**18;
 
-    event TokenAdded(address indexed token);
+    event TokenAdded(address indexed token, Escrow.AssetType assetType);
+    event TokenDelisted(address indexed token, bool completable);
     event OperationCreated(
         uint256 indexed operationId,
         address indexed creator,
         address tokenA,
         address tokenB,
         uint256 amountA,
-        uint256 amountB
+        uint256 amountB,
+        uint256 deadline,
+        bool partiallyFillable,
+        uint256 minFill,
+        address indexed counterparty
+    );
+    event OperationAssets(
+        uint256 indexed operationId,
+        Escrow.AssetType assetTypeA,
+        uint256 tokenIdA,
+        Escrow.AssetType assetTypeB,
+        uint256 tokenIdB
+    );
+    event OperationFilled(
+        uint256 indexed operationId,
+        address indexed filler,
+        uint256 amountA,
+        uint256 amountB,
+        uint256 fee
     );
     event OperationCompleted(
         uint256 indexed operationId,
         address indexed completer
     );
     event OperationCancelled(uint256 indexed operationId);
+    event OperationReclaimed(uint256 indexed operationId, address indexed caller);
+    event FeeUpdated(uint256 oldFeeBps, uint256 newFeeBps);
+    event FeeRecipientUpdated(address indexed oldRecipient, address indexed newRecipient);
+    event Paused(address account);
+    event Unpaused(address account);
 
     function setUp() public {
         // Setup accounts
@@ -41,7 +71,8 @@ contract EscrowTest is Test {
         user3 = makeAddr("user3");
 
         // Deploy contracts
-        escrow = new Escrow();
+        weth = new MockWETH();
+        escrow = new Escrow(address(weth));
         tokenA = new MockToken("Token A", "TKA", INITIAL_BALANCE);
         tokenB = new MockToken("Token B", "TKB", INITIAL_BALANCE);
         tokenC = new MockToken("Token C", "TKC", INITIAL_BALANCE);
@@ -58,7 +89,7 @@ contract EscrowTest is Test {
 
     function test_AddToken_Success() public {
         vm.expectEmit(true, false, false, false);
-        emit TokenAdded(address(tokenA));
+        emit TokenAdded(address(tokenA), Escrow.AssetType.ERC20);
 
         escrow.addToken(address(tokenA));
 
@@ -81,24 +112,39 @@ contract EscrowTest is Test {
 
     function test_AddToken_RevertWhen_NotOwner() public {
         vm.prank(user1);
-        vm.expectRevert();
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user1));
         escrow.addToken(address(tokenA));
     }
 
     function test_AddToken_RevertWhen_ZeroAddress() public {
-        vm.expectRevert("Invalid token address");
+        vm.expectRevert(Escrow.InvalidTokenAddress.selector);
         escrow.addToken(address(0));
     }
 
     function test_AddToken_RevertWhen_AlreadyAdded() public {
         escrow.addToken(address(tokenA));
 
-        vm.expectRevert("Token already allowed");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.TokenAlreadyAllowed.selector, address(tokenA)));
         escrow.addToken(address(tokenA));
     }
 
     // ============ createOperation Tests ============
 
+    function _options(uint256 deadline, bool partiallyFillable, uint256 minFill, address counterparty)
+        internal
+        pure
+        returns (Escrow.OperationOptions memory)
+    {
+        return Escrow.OperationOptions({
+            deadline: deadline,
+            partiallyFillable: partiallyFillable,
+            minFill: minFill,
+            counterparty: counterparty,
+            tokenIdA: 0,
+            tokenIdB: 0
+        });
+    }
+
     function test_CreateOperation_Success() public {
         // Setup
         escrow.addToken(address(tokenA));
@@ -113,7 +159,7 @@ contract EscrowTest is Test {
         uint256 balanceBefore = tokenA.balanceOf(user1);
 
         vm.expectEmit(true, true, false, true);
-        emit OperationCreated(0, user1, address(tokenA), address(tokenB), amountA, amountB);
+        emit OperationCreated(0, user1, address(tokenA), address(tokenB), amountA, amountB, 0, false, 0, address(0));
 
         escrow.createOperation(address(tokenA), address(tokenB), amountA, amountB);
         vm.stopPrank();
@@ -166,7 +212,7 @@ contract EscrowTest is Test {
         vm.startPrank(user1);
         tokenA.approve(address(escrow), 100 * 10**18);
 
-        vm.expectRevert("TokenA not allowed");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.TokenNotAllowed.selector, address(tokenA)));
         escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
         vm.stopPrank();
     }
@@ -177,7 +223,7 @@ contract EscrowTest is Test {
         vm.startPrank(user1);
         tokenA.approve(address(escrow), 100 * 10**18);
 
-        vm.expectRevert("TokenB not allowed");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.TokenNotAllowed.selector, address(tokenB)));
         escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
         vm.stopPrank();
     }
@@ -188,7 +234,7 @@ contract EscrowTest is Test {
         vm.startPrank(user1);
         tokenA.approve(address(escrow), 100 * 10**18);
 
-        vm.expectRevert("Tokens must be different");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.IdenticalTokens.selector, address(tokenA)));
         escrow.createOperation(address(tokenA), address(tokenA), 100 * 10**18, 50 * 10**18);
         vm.stopPrank();
     }
@@ -198,7 +244,7 @@ contract EscrowTest is Test {
         escrow.addToken(address(tokenB));
 
         vm.startPrank(user1);
-        vm.expectRevert("AmountA must be greater than 0");
+        vm.expectRevert(Escrow.ZeroAmount.selector);
         escrow.createOperation(address(tokenA), address(tokenB), 0, 50 * 10**18);
         vm.stopPrank();
     }
@@ -210,7 +256,7 @@ contract EscrowTest is Test {
         vm.startPrank(user1);
         tokenA.approve(address(escrow), 100 * 10**18);
 
-        vm.expectRevert("AmountB must be greater than 0");
+        vm.expectRevert(Escrow.ZeroAmount.selector);
         escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 0);
         vm.stopPrank();
     }
@@ -222,7 +268,11 @@ contract EscrowTest is Test {
         vm.startPrank(user1);
         tokenA.approve(address(escrow), 50 * 10**18);
 
-        vm.expectRevert();
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IERC20Errors.ERC20InsufficientAllowance.selector, address(escrow), 50 * 10**18, 100 * 10**18
+            )
+        );
         escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
         vm.stopPrank();
     }
@@ -270,7 +320,7 @@ contract EscrowTest is Test {
 
     function test_CompleteOperation_RevertWhen_OperationDoesNotExist() public {
         vm.prank(user2);
-        vm.expectRevert("Operation does not exist");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OperationNotFound.selector, 999));
         escrow.completeOperation(999);
     }
 
@@ -291,7 +341,9 @@ contract EscrowTest is Test {
 
         // Try to complete again
         vm.prank(user3);
-        vm.expectRevert("Operation not active");
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.OperationNotActive.selector, 0, Escrow.OperationStatus.Completed)
+        );
         escrow.completeOperation(0);
     }
 
@@ -304,7 +356,7 @@ contract EscrowTest is Test {
         escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
 
         tokenB.approve(address(escrow), 50 * 10**18);
-        vm.expectRevert("Creator cannot complete own operation");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.CreatorCannotComplete.selector, 0));
         escrow.completeOperation(0);
         vm.stopPrank();
     }
@@ -320,7 +372,9 @@ contract EscrowTest is Test {
         vm.stopPrank();
 
         vm.prank(user2);
-        vm.expectRevert("Operation not active");
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.OperationNotActive.selector, 0, Escrow.OperationStatus.Cancelled)
+        );
         escrow.completeOperation(0);
     }
 
@@ -356,7 +410,7 @@ contract EscrowTest is Test {
 
     function test_CancelOperation_RevertWhen_OperationDoesNotExist() public {
         vm.prank(user1);
-        vm.expectRevert("Operation does not exist");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OperationNotFound.selector, 999));
         escrow.cancelOperation(999);
     }
 
@@ -370,7 +424,7 @@ contract EscrowTest is Test {
         vm.stopPrank();
 
         vm.prank(user2);
-        vm.expectRevert("Only creator can cancel");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OnlyCreator.selector, 0, user2));
         escrow.cancelOperation(0);
     }
 
@@ -389,7 +443,9 @@ contract EscrowTest is Test {
         vm.stopPrank();
 
         vm.prank(user1);
-        vm.expectRevert("Operation not active");
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.OperationNotActive.selector, 0, Escrow.OperationStatus.Completed)
+        );
         escrow.cancelOperation(0);
     }
 
@@ -402,7 +458,9 @@ contract EscrowTest is Test {
         escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
         escrow.cancelOperation(0);
 
-        vm.expectRevert("Operation not active");
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.OperationNotActive.selector, 0, Escrow.OperationStatus.Cancelled)
+        );
         escrow.cancelOperation(0);
         vm.stopPrank();
     }
@@ -420,7 +478,7 @@ contract EscrowTest is Test {
     }
 
     function test_GetOperation_RevertWhen_DoesNotExist() public {
-        vm.expectRevert("Operation does not exist");
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OperationNotFound.selector, 0));
         escrow.getOperation(0);
     }
 
@@ -428,6 +486,1482 @@ contract EscrowTest is Test {
         assertEq(escrow.getOperationCount(), 0);
     }
 
+    // ============ Pagination Tests ============
+
+    function _createOperations(address creator, uint256 count) internal {
+        vm.startPrank(creator);
+        tokenA.approve(address(escrow), count * 10 * 10**18);
+        for (uint256 i = 0; i < count; i++) {
+            escrow.createOperation(address(tokenA), address(tokenB), 10 * 10**18, (i + 1) * 10**18);
+        }
+        vm.stopPrank();
+    }
+
+    function test_GetOperationsPaginated_ReturnsPage() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+        _createOperations(user1, 5);
+
+        Escrow.Operation[] memory page = escrow.getOperationsPaginated(1, 2);
+        assertEq(page.length, 2);
+        assertEq(page[0].id, 1);
+        assertEq(page[1].id, 2);
+    }
+
+    function test_GetOperationsPaginated_ClampsToEnd() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+        _createOperations(user1, 3);
+
+        Escrow.Operation[] memory page = escrow.getOperationsPaginated(2, type(uint256).max);
+        assertEq(page.length, 1);
+        assertEq(page[0].id, 2);
+
+        assertEq(escrow.getOperationsPaginated(3, 10).length, 0);
+    }
+
+    function test_GetOperationsByCreator() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+        _createOperations(user1, 2);
+        _createOperations(user2, 3);
+
+        assertEq(escrow.getOperationCountByCreator(user1), 2);
+        assertEq(escrow.getOperationCountByCreator(user2), 3);
+        assertEq(escrow.getOperationCountByCreator(user3), 0);
+
+        Escrow.Operation[] memory page = escrow.getOperationsByCreator(user2, 1, 5);
+        assertEq(page.length, 2);
+        assertEq(page[0].id, 3);
+        assertEq(page[1].id, 4);
+        assertEq(page[0].creator, user2);
+    }
+
+    function test_GetOperationsByStatus_TracksTransitions() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+        _createOperations(user1, 3);
+
+        assertEq(escrow.getOperationCountByStatus(Escrow.OperationStatus.Active), 3);
+
+        // Cancel the first operation
+        vm.prank(user1);
+        escrow.cancelOperation(0);
+
+        // Complete the second operation
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 2 * 10**18);
+        escrow.completeOperation(1);
+        vm.stopPrank();
+
+        assertEq(escrow.getOperationCountByStatus(Escrow.OperationStatus.Active), 1);
+        assertEq(escrow.getOperationCountByStatus(Escrow.OperationStatus.Completed), 1);
+        assertEq(escrow.getOperationCountByStatus(Escrow.OperationStatus.Cancelled), 1);
+
+        Escrow.Operation[] memory active = escrow.getOperationsByStatus(Escrow.OperationStatus.Active, 0, 10);
+        assertEq(active.length, 1);
+        assertEq(active[0].id, 2);
+
+        Escrow.Operation[] memory completed = escrow.getOperationsByStatus(Escrow.OperationStatus.Completed, 0, 10);
+        assertEq(completed[0].id, 1);
+
+        Escrow.Operation[] memory cancelled = escrow.getOperationsByStatus(Escrow.OperationStatus.Cancelled, 0, 10);
+        assertEq(cancelled[0].id, 0);
+    }
+
+    // ============ Permit Tests ============
+
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    function _signPermit(
+        MockToken token,
+        uint256 privateKey,
+        address holder,
+        uint256 value,
+        uint256 deadline
+    ) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        bytes32 structHash = keccak256(
+            abi.encode(PERMIT_TYPEHASH, holder, address(escrow), value, token.nonces(holder), deadline)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", token.DOMAIN_SEPARATOR(), structHash));
+        return vm.sign(privateKey, digest);
+    }
+
+    function test_CreateOperationWithPermit_Success() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        (address signer, uint256 signerKey) = makeAddrAndKey("signer");
+        tokenA.transfer(signer, 100 * 10**18);
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(tokenA, signerKey, signer, 100 * 10**18, deadline);
+
+        // No approve call: the permit provides the allowance
+        vm.prank(signer);
+        escrow.createOperationWithPermit(
+            address(tokenA),
+            address(tokenB),
+            100 * 10**18,
+            50 * 10**18,
+            _options(0, false, 0, address(0)),
+            deadline,
+            v,
+            r,
+            s
+        );
+
+        assertEq(tokenA.balanceOf(address(escrow)), 100 * 10**18);
+        assertEq(escrow.getOperation(0).creator, signer);
+        assertEq(tokenA.nonces(signer), 1);
+    }
+
+    function test_CompleteOperationWithPermit_Success() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+
+        (address signer, uint256 signerKey) = makeAddrAndKey("signer");
+        tokenB.transfer(signer, 50 * 10**18);
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(tokenB, signerKey, signer, 50 * 10**18, deadline);
+
+        uint256 user1BalanceBBefore = tokenB.balanceOf(user1);
+
+        vm.prank(signer);
+        escrow.completeOperationWithPermit(0, deadline, v, r, s);
+
+        assertEq(tokenA.balanceOf(signer), 100 * 10**18);
+        assertEq(tokenB.balanceOf(user1), user1BalanceBBefore + 50 * 10**18);
+        assertEq(escrow.getOperation(0).completer, signer);
+    }
+
+    function test_CreateOperationWithPermit_SucceedsWhenPermitFrontRun() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        (address signer, uint256 signerKey) = makeAddrAndKey("signer");
+        tokenA.transfer(signer, 100 * 10**18);
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(tokenA, signerKey, signer, 100 * 10**18, deadline);
+
+        // Someone submits the permit first, consuming the nonce
+        tokenA.permit(signer, address(escrow), 100 * 10**18, deadline, v, r, s);
+
+        vm.prank(signer);
+        escrow.createOperationWithPermit(
+            address(tokenA),
+            address(tokenB),
+            100 * 10**18,
+            50 * 10**18,
+            _options(0, false, 0, address(0)),
+            deadline,
+            v,
+            r,
+            s
+        );
+
+        assertEq(escrow.getOperationCount(), 1);
+    }
+
+    function test_CreateOperationWithPermit_RevertWhen_InvalidSignature() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        (address signer, ) = makeAddrAndKey("signer");
+        (, uint256 otherKey) = makeAddrAndKey("other");
+        tokenA.transfer(signer, 100 * 10**18);
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(tokenA, otherKey, signer, 100 * 10**18, deadline);
+
+        vm.prank(signer);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.PermitFailed.selector, address(tokenA)));
+        escrow.createOperationWithPermit(
+            address(tokenA),
+            address(tokenB),
+            100 * 10**18,
+            50 * 10**18,
+            _options(0, false, 0, address(0)),
+            deadline,
+            v,
+            r,
+            s
+        );
+    }
+
+    function test_CompleteOperationWithPermit_RevertWhen_OperationDoesNotExist() public {
+        vm.prank(user2);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OperationNotFound.selector, 999));
+        escrow.completeOperationWithPermit(999, block.timestamp, 27, bytes32(0), bytes32(0));
+    }
+
+    // ============ Deadline Tests ============
+
+    function _createExpiringOperation(uint256 deadline) internal {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(
+            address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18, _options(deadline, false, 0, address(0))
+        );
+        vm.stopPrank();
+    }
+
+    function test_CreateOperation_StoresDeadline() public {
+        uint256 deadline = block.timestamp + 1 days;
+        _createExpiringOperation(deadline);
+
+        assertEq(escrow.getOperation(0).deadline, deadline);
+    }
+
+    function test_CreateOperation_WithoutDeadlineNeverExpires() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+
+        assertEq(escrow.getOperation(0).deadline, 0);
+
+        vm.warp(block.timestamp + 3650 days);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OperationNotExpired.selector, 0, 0));
+        escrow.reclaimExpired(0);
+    }
+
+    function test_CreateOperation_RevertWhen_DeadlineInPast() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.InvalidDeadline.selector, block.timestamp));
+        escrow.createOperation(
+            address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18, _options(block.timestamp, false, 0, address(0))
+        );
+        vm.stopPrank();
+    }
+
+    function test_CompleteOperation_SucceedsAtDeadline() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        _createExpiringOperation(deadline);
+
+        vm.warp(deadline);
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(uint(escrow.getOperation(0).status), uint(Escrow.OperationStatus.Completed));
+    }
+
+    function test_CompleteOperation_RevertWhen_Expired() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        _createExpiringOperation(deadline);
+
+        vm.warp(deadline + 1);
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OperationExpired.selector, 0, deadline));
+        escrow.completeOperation(0);
+        vm.stopPrank();
+    }
+
+    function test_ReclaimExpired_ByAnyone() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        _createExpiringOperation(deadline);
+        uint256 balanceBefore = tokenA.balanceOf(user1);
+
+        vm.warp(deadline + 1);
+        vm.expectEmit(true, true, false, false);
+        emit OperationReclaimed(0, user3);
+
+        vm.prank(user3);
+        escrow.reclaimExpired(0);
+
+        // tokenA goes back to the creator, not to the caller
+        assertEq(tokenA.balanceOf(user1), balanceBefore + 100 * 10**18);
+        assertEq(tokenA.balanceOf(address(escrow)), 0);
+        assertEq(uint(escrow.getOperation(0).status), uint(Escrow.OperationStatus.Expired));
+        assertEq(escrow.getOperationCountByStatus(Escrow.OperationStatus.Active), 0);
+        assertEq(escrow.getOperationCountByStatus(Escrow.OperationStatus.Expired), 1);
+    }
+
+    function test_ReclaimExpired_RevertWhen_NotExpired() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        _createExpiringOperation(deadline);
+
+        vm.warp(deadline);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OperationNotExpired.selector, 0, deadline));
+        escrow.reclaimExpired(0);
+    }
+
+    function test_ReclaimExpired_RevertWhen_AlreadyReclaimed() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        _createExpiringOperation(deadline);
+
+        vm.warp(deadline + 1);
+        escrow.reclaimExpired(0);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.OperationNotActive.selector, 0, Escrow.OperationStatus.Expired)
+        );
+        escrow.reclaimExpired(0);
+    }
+
+    function test_CancelOperation_AfterExpiry() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        _createExpiringOperation(deadline);
+
+        vm.warp(deadline + 1);
+        vm.prank(user1);
+        escrow.cancelOperation(0);
+
+        assertEq(uint(escrow.getOperation(0).status), uint(Escrow.OperationStatus.Cancelled));
+    }
+
+    // ============ Partial Fill Tests ============
+
+    function _createPartialOperation(uint256 amountA, uint256 amountB, uint256 minFill) internal {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), amountA);
+        escrow.createOperation(
+            address(tokenA), address(tokenB), amountA, amountB, _options(0, true, minFill, address(0))
+        );
+        vm.stopPrank();
+    }
+
+    function test_CreatePartialOperation_StoresTerms() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 5 * 10**18);
+
+        Escrow.Operation memory op = escrow.getOperation(0);
+        assertTrue(op.partiallyFillable);
+        assertEq(op.minFill, 5 * 10**18);
+        assertEq(op.filledA, 0);
+        assertEq(op.filledB, 0);
+    }
+
+    function test_CreatePartialOperation_RevertWhen_MinFillAboveAmountB() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.InvalidMinFill.selector, 51 * 10**18, 50 * 10**18));
+        escrow.createOperation(
+            address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18, _options(0, true, 51 * 10**18, address(0))
+        );
+        vm.stopPrank();
+    }
+
+    function test_FillOperation_PaysProRata() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 0);
+        uint256 user1BalanceB = tokenB.balanceOf(user1);
+        uint256 user2BalanceA = tokenA.balanceOf(user2);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 10 * 10**18);
+        vm.expectEmit(true, true, false, true);
+        emit OperationFilled(0, user2, 20 * 10**18, 10 * 10**18, 0);
+        escrow.fillOperation(0, 10 * 10**18);
+        vm.stopPrank();
+
+        assertEq(tokenB.balanceOf(user1), user1BalanceB + 10 * 10**18);
+        assertEq(tokenA.balanceOf(user2), user2BalanceA + 20 * 10**18);
+        assertEq(tokenA.balanceOf(address(escrow)), 80 * 10**18);
+
+        Escrow.Operation memory op = escrow.getOperation(0);
+        assertEq(op.filledA, 20 * 10**18);
+        assertEq(op.filledB, 10 * 10**18);
+        assertEq(uint(op.status), uint(Escrow.OperationStatus.Active));
+    }
+
+    function test_FillOperation_FinalFillTakesRemainder() public {
+        // 10 / 3 does not divide evenly: partial fills round down, the last one takes the dust
+        _createPartialOperation(10, 3, 0);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 3);
+        escrow.fillOperation(0, 1);
+        escrow.fillOperation(0, 1);
+        assertEq(escrow.previewFill(0, 1), 4);
+
+        vm.expectEmit(true, true, false, true);
+        emit OperationFilled(0, user2, 4, 1, 0);
+        vm.expectEmit(true, true, false, false);
+        emit OperationCompleted(0, user2);
+        escrow.fillOperation(0, 1);
+        vm.stopPrank();
+
+        Escrow.Operation memory op = escrow.getOperation(0);
+        assertEq(op.filledA, 10);
+        assertEq(uint(op.status), uint(Escrow.OperationStatus.Completed));
+        assertEq(op.completer, user2);
+        assertEq(tokenA.balanceOf(address(escrow)), 0);
+    }
+
+    function test_FillOperation_RevertWhen_BelowMinimum() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 5 * 10**18);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.FillBelowMinimum.selector, 0, 4 * 10**18, 5 * 10**18)
+        );
+        escrow.fillOperation(0, 4 * 10**18);
+        vm.stopPrank();
+    }
+
+    function test_FillOperation_RemainderBelowMinimumAllowed() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 5 * 10**18);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.fillOperation(0, 47 * 10**18);
+        escrow.fillOperation(0, 3 * 10**18);
+        vm.stopPrank();
+
+        assertEq(uint(escrow.getOperation(0).status), uint(Escrow.OperationStatus.Completed));
+    }
+
+    function test_FillOperation_RevertWhen_ExceedsRemaining() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 0);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 60 * 10**18);
+        escrow.fillOperation(0, 20 * 10**18);
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.InvalidFillAmount.selector, 0, 31 * 10**18, 30 * 10**18)
+        );
+        escrow.fillOperation(0, 31 * 10**18);
+        vm.stopPrank();
+    }
+
+    function test_FillOperation_RevertWhen_PayoutRoundsToZero() public {
+        _createPartialOperation(1, 3, 0);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 3);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.InvalidFillAmount.selector, 0, 1, 3));
+        escrow.fillOperation(0, 1);
+        vm.stopPrank();
+    }
+
+    function test_FillOperation_RevertWhen_NotPartiallyFillable() public {
+        _createExpiringOperation(0);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.NotPartiallyFillable.selector, 0));
+        escrow.fillOperation(0, 10 * 10**18);
+
+        // Filling everything at once is just a completion
+        escrow.fillOperation(0, 50 * 10**18);
+        vm.stopPrank();
+
+        assertEq(uint(escrow.getOperation(0).status), uint(Escrow.OperationStatus.Completed));
+    }
+
+    function test_FillOperation_RevertWhen_Creator() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 0);
+
+        vm.startPrank(user1);
+        tokenB.approve(address(escrow), 10 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.CreatorCannotComplete.selector, 0));
+        escrow.fillOperation(0, 10 * 10**18);
+        vm.stopPrank();
+    }
+
+    function test_CompleteOperation_AfterPartialFill() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 0);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 10 * 10**18);
+        escrow.fillOperation(0, 10 * 10**18);
+        vm.stopPrank();
+
+        uint256 user3BalanceA = tokenA.balanceOf(user3);
+        tokenB.transfer(user3, 40 * 10**18);
+
+        vm.startPrank(user3);
+        tokenB.approve(address(escrow), 40 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(tokenA.balanceOf(user3), user3BalanceA + 80 * 10**18);
+        assertEq(escrow.getOperation(0).completer, user3);
+    }
+
+    function test_CancelOperation_ReturnsUnfilledPart() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 0);
+        uint256 user1BalanceA = tokenA.balanceOf(user1);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 20 * 10**18);
+        escrow.fillOperation(0, 20 * 10**18);
+        vm.stopPrank();
+
+        vm.prank(user1);
+        escrow.cancelOperation(0);
+
+        assertEq(tokenA.balanceOf(user1), user1BalanceA + 60 * 10**18);
+        assertEq(tokenA.balanceOf(address(escrow)), 0);
+    }
+
+    function test_FillOperationWithPermit_Success() public {
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 0);
+
+        (address signer, uint256 signerKey) = makeAddrAndKey("signer");
+        tokenB.transfer(signer, 10 * 10**18);
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(tokenB, signerKey, signer, 10 * 10**18, deadline);
+
+        vm.prank(signer);
+        escrow.fillOperationWithPermit(0, 10 * 10**18, deadline, v, r, s);
+
+        assertEq(tokenA.balanceOf(signer), 20 * 10**18);
+        assertEq(escrow.getOperation(0).filledB, 10 * 10**18);
+    }
+
+    // ============ Counterparty Tests ============
+
+    function _createPrivateOperation(address counterparty) internal {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(
+            address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18, _options(0, false, 0, counterparty)
+        );
+        vm.stopPrank();
+    }
+
+    function test_CreateOperation_StoresCounterparty() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        vm.expectEmit(true, true, true, true);
+        emit OperationCreated(
+            0, user1, address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18, 0, false, 0, user2
+        );
+        escrow.createOperation(
+            address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18, _options(0, false, 0, user2)
+        );
+        vm.stopPrank();
+
+        assertEq(escrow.getOperation(0).counterparty, user2);
+    }
+
+    function test_CreateOperation_RevertWhen_CounterpartyIsCreator() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.InvalidCounterparty.selector, user1));
+        escrow.createOperation(
+            address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18, _options(0, false, 0, user1)
+        );
+        vm.stopPrank();
+    }
+
+    function test_CompleteOperation_ByCounterparty() public {
+        _createPrivateOperation(user2);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(escrow.getOperation(0).completer, user2);
+    }
+
+    function test_CompleteOperation_RevertWhen_NotCounterparty() public {
+        _createPrivateOperation(user2);
+        tokenB.transfer(user3, 50 * 10**18);
+
+        vm.startPrank(user3);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OnlyCounterparty.selector, 0, user3));
+        escrow.completeOperation(0);
+        vm.stopPrank();
+    }
+
+    function test_FillOperation_RevertWhen_NotCounterparty() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(
+            address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18, _options(0, true, 0, user2)
+        );
+        vm.stopPrank();
+
+        tokenB.transfer(user3, 10 * 10**18);
+        vm.startPrank(user3);
+        tokenB.approve(address(escrow), 10 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.OnlyCounterparty.selector, 0, user3));
+        escrow.fillOperation(0, 10 * 10**18);
+        vm.stopPrank();
+    }
+
+    // ============ Fee Tests ============
+
+    function test_Constructor_OwnerReceivesFees() public {
+        assertEq(escrow.feeRecipient(), owner);
+        assertEq(escrow.feeBps(), 0);
+    }
+
+    function test_SetFee_Success() public {
+        vm.expectEmit(false, false, false, true);
+        emit FeeUpdated(0, 100);
+        escrow.setFee(100);
+
+        assertEq(escrow.feeBps(), 100);
+    }
+
+    function test_SetFee_RevertWhen_NotOwner() public {
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user1));
+        escrow.setFee(100);
+    }
+
+    function test_SetFee_RevertWhen_AboveCap() public {
+        uint256 maxFeeBps = escrow.MAX_FEE_BPS();
+
+        escrow.setFee(maxFeeBps);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.FeeTooHigh.selector, maxFeeBps + 1, maxFeeBps));
+        escrow.setFee(maxFeeBps + 1);
+    }
+
+    function test_SetFeeRecipient_Success() public {
+        vm.expectEmit(true, true, false, false);
+        emit FeeRecipientUpdated(owner, user3);
+        escrow.setFeeRecipient(user3);
+
+        assertEq(escrow.feeRecipient(), user3);
+    }
+
+    function test_SetFeeRecipient_RevertWhen_ZeroAddress() public {
+        vm.expectRevert(Escrow.InvalidFeeRecipient.selector);
+        escrow.setFeeRecipient(address(0));
+    }
+
+    function test_SetFeeRecipient_RevertWhen_NotOwner() public {
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user1));
+        escrow.setFeeRecipient(user1);
+    }
+
+    function test_CompleteOperation_TakesFeeFromTokenA() public {
+        escrow.setFee(100); // 1%
+        escrow.setFeeRecipient(user3);
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+
+        uint256 user1BalanceB = tokenB.balanceOf(user1);
+        uint256 user2BalanceA = tokenA.balanceOf(user2);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        vm.expectEmit(true, true, false, true);
+        emit OperationFilled(0, user2, 100 * 10**18, 50 * 10**18, 1 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        // The creator still gets the full amountB
+        assertEq(tokenB.balanceOf(user1), user1BalanceB + 50 * 10**18);
+        assertEq(tokenA.balanceOf(user2), user2BalanceA + 99 * 10**18);
+        assertEq(tokenA.balanceOf(user3), 1 * 10**18);
+        assertEq(tokenA.balanceOf(address(escrow)), 0);
+    }
+
+    function test_FillOperation_TakesFeeOnEachFill() public {
+        escrow.setFee(250); // 2.5%
+        escrow.setFeeRecipient(user3);
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 0);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        assertEq(escrow.previewFill(0, 10 * 10**18), 19.5 * 10**18);
+        escrow.fillOperation(0, 10 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(tokenA.balanceOf(user3), 2.5 * 10**18);
+        assertEq(escrow.getOperation(0).filledA, 100 * 10**18);
+        assertEq(tokenA.balanceOf(address(escrow)), 0);
+    }
+
+    function test_CancelOperation_ChargesNoFee() public {
+        escrow.setFee(100);
+        _createPartialOperation(100 * 10**18, 50 * 10**18, 0);
+        uint256 user1BalanceA = tokenA.balanceOf(user1);
+
+        vm.prank(user1);
+        escrow.cancelOperation(0);
+
+        assertEq(tokenA.balanceOf(user1), user1BalanceA + 100 * 10**18);
+    }
+
+    // ============ Ownership Tests ============
+
+    function test_TransferOwnership_RequiresAcceptance() public {
+        escrow.transferOwnership(user1);
+
+        assertEq(escrow.owner(), owner);
+        assertEq(escrow.pendingOwner(), user1);
+
+        vm.prank(user1);
+        escrow.acceptOwnership();
+
+        assertEq(escrow.owner(), user1);
+        assertEq(escrow.pendingOwner(), address(0));
+    }
+
+    function test_AcceptOwnership_RevertWhen_NotPendingOwner() public {
+        escrow.transferOwnership(user1);
+
+        vm.prank(user2);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user2));
+        escrow.acceptOwnership();
+    }
+
+    function test_TransferOwnership_RevertWhen_NotOwner() public {
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user1));
+        escrow.transferOwnership(user1);
+    }
+
+    function test_TransferOwnership_NewOwnerCanAddTokens() public {
+        escrow.transferOwnership(user1);
+        vm.prank(user1);
+        escrow.acceptOwnership();
+
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, owner));
+        escrow.addToken(address(tokenA));
+
+        vm.prank(user1);
+        escrow.addToken(address(tokenA));
+        assertTrue(escrow.allowedTokens(address(tokenA)));
+    }
+
+    // ============ Delisting Tests ============
+
+    function _createListedOperation() internal {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+    }
+
+    function test_RemoveToken_Success() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+
+        vm.expectEmit(true, false, false, true);
+        emit TokenDelisted(address(tokenA), true);
+        escrow.removeToken(address(tokenA), true);
+
+        assertFalse(escrow.allowedTokens(address(tokenA)));
+        assertTrue(escrow.delistedTokens(address(tokenA)));
+        assertFalse(escrow.frozenTokens(address(tokenA)));
+
+        address[] memory allowed = escrow.getAllowedTokens();
+        assertEq(allowed.length, 1);
+        assertEq(allowed[0], address(tokenB));
+        address[] memory delisted = escrow.getDelistedTokens();
+        assertEq(delisted.length, 1);
+        assertEq(delisted[0], address(tokenA));
+    }
+
+    function test_RemoveToken_RevertWhen_NotOwner() public {
+        escrow.addToken(address(tokenA));
+
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user1));
+        escrow.removeToken(address(tokenA), true);
+    }
+
+    function test_RemoveToken_RevertWhen_NotAllowed() public {
+        vm.expectRevert(abi.encodeWithSelector(Escrow.TokenNotAllowed.selector, address(tokenA)));
+        escrow.removeToken(address(tokenA), true);
+    }
+
+    function test_CreateOperation_RevertWhen_TokenDelisted() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+        escrow.removeToken(address(tokenB), true);
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.TokenNotAllowed.selector, address(tokenB)));
+        escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+    }
+
+    function test_CompleteOperation_AfterDelistingWhenCompletable() public {
+        _createListedOperation();
+        escrow.removeToken(address(tokenA), true);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(uint(escrow.getOperation(0).status), uint(Escrow.OperationStatus.Completed));
+    }
+
+    function test_CompleteOperation_RevertWhen_TokenFrozen() public {
+        _createListedOperation();
+        escrow.removeToken(address(tokenB), false);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.TokenFrozen.selector, address(tokenB)));
+        escrow.completeOperation(0);
+        vm.stopPrank();
+    }
+
+    function test_CancelOperation_AfterTokenFrozen() public {
+        _createListedOperation();
+        escrow.removeToken(address(tokenA), false);
+        uint256 user1BalanceA = tokenA.balanceOf(user1);
+
+        vm.prank(user1);
+        escrow.cancelOperation(0);
+
+        assertEq(tokenA.balanceOf(user1), user1BalanceA + 100 * 10**18);
+    }
+
+    function test_AddToken_RelistsDelistedToken() public {
+        _createListedOperation();
+        escrow.removeToken(address(tokenA), false);
+
+        escrow.addToken(address(tokenA));
+
+        assertTrue(escrow.allowedTokens(address(tokenA)));
+        assertFalse(escrow.delistedTokens(address(tokenA)));
+        assertFalse(escrow.frozenTokens(address(tokenA)));
+        assertEq(escrow.getAllowedTokens().length, 2);
+        assertEq(escrow.getDelistedTokens().length, 0);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+    }
+
+    // ============ Pause Tests ============
+
+    function test_Pause_Success() public {
+        vm.expectEmit(false, false, false, true);
+        emit Paused(owner);
+        escrow.pause();
+
+        assertTrue(escrow.paused());
+
+        vm.expectEmit(false, false, false, true);
+        emit Unpaused(owner);
+        escrow.unpause();
+
+        assertFalse(escrow.paused());
+    }
+
+    function test_Pause_RevertWhen_NotOwner() public {
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user1));
+        escrow.pause();
+    }
+
+    function test_Unpause_RevertWhen_NotOwner() public {
+        escrow.pause();
+
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user1));
+        escrow.unpause();
+    }
+
+    function test_CreateOperation_RevertWhen_Paused() public {
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+        escrow.pause();
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        vm.expectRevert(Pausable.EnforcedPause.selector);
+        escrow.createOperation(address(tokenA), address(tokenB), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+    }
+
+    function test_CompleteOperation_RevertWhen_Paused() public {
+        _createListedOperation();
+        escrow.pause();
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        vm.expectRevert(Pausable.EnforcedPause.selector);
+        escrow.completeOperation(0);
+        vm.expectRevert(Pausable.EnforcedPause.selector);
+        escrow.fillOperation(0, 10 * 10**18);
+        vm.stopPrank();
+    }
+
+    function test_CancelOperation_WhilePaused() public {
+        _createListedOperation();
+        escrow.pause();
+        uint256 user1BalanceA = tokenA.balanceOf(user1);
+
+        vm.prank(user1);
+        escrow.cancelOperation(0);
+
+        assertEq(tokenA.balanceOf(user1), user1BalanceA + 100 * 10**18);
+    }
+
+    function test_CompleteOperation_AfterUnpause() public {
+        _createListedOperation();
+        escrow.pause();
+        escrow.unpause();
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(uint(escrow.getOperation(0).status), uint(Escrow.OperationStatus.Completed));
+    }
+
+    // ============ Fee-on-Transfer Tests ============
+
+    // 1% of every transfer is burned
+    function _deployTaxedToken() internal returns (MockTaxedToken taxed) {
+        taxed = new MockTaxedToken("Taxed Token", "TAX", INITIAL_BALANCE, 100);
+        taxed.transfer(user1, 1000 * 10**18);
+        taxed.transfer(user2, 1000 * 10**18);
+        escrow.addToken(address(taxed));
+    }
+
+    function _createTaxedOperation(MockTaxedToken taxed, address creator) internal {
+        vm.startPrank(creator);
+        taxed.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(address(taxed), address(tokenB), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+    }
+
+    function test_CreateOperation_RecordsReceivedAmount() public {
+        MockTaxedToken taxed = _deployTaxedToken();
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        taxed.approve(address(escrow), 100 * 10**18);
+        vm.expectEmit(true, true, true, true);
+        emit OperationCreated(
+            0, user1, address(taxed), address(tokenB), 99 * 10**18, 50 * 10**18, 0, false, 0, address(0)
+        );
+        escrow.createOperation(address(taxed), address(tokenB), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+
+        assertEq(escrow.getOperation(0).amountA, 99 * 10**18);
+        assertEq(taxed.balanceOf(address(escrow)), 99 * 10**18);
+    }
+
+    function test_CancelOperation_TaxedTokenLeavesOtherOperationsFunded() public {
+        MockTaxedToken taxed = _deployTaxedToken();
+        escrow.addToken(address(tokenB));
+        _createTaxedOperation(taxed, user1);
+        _createTaxedOperation(taxed, user2);
+
+        vm.prank(user1);
+        escrow.cancelOperation(0);
+
+        // user2's deposit is untouched and can still be withdrawn in full
+        assertEq(taxed.balanceOf(address(escrow)), 99 * 10**18);
+        vm.prank(user2);
+        escrow.cancelOperation(1);
+        assertEq(taxed.balanceOf(address(escrow)), 0);
+    }
+
+    function test_CompleteOperation_TaxedTokenA() public {
+        MockTaxedToken taxed = _deployTaxedToken();
+        escrow.addToken(address(tokenB));
+        _createTaxedOperation(taxed, user1);
+        uint256 user2BalanceBefore = taxed.balanceOf(user2);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        // The escrow pays out everything it recorded; the payout is taxed again on the way out
+        assertEq(taxed.balanceOf(address(escrow)), 0);
+        assertEq(taxed.balanceOf(user2), user2BalanceBefore + 99 * 10**18 - (99 * 10**18) / 100);
+    }
+
+    function test_FillOperation_TaxedTokenAPaysOutProRata() public {
+        MockTaxedToken taxed = _deployTaxedToken();
+        escrow.addToken(address(tokenB));
+
+        vm.startPrank(user1);
+        taxed.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(
+            address(taxed), address(tokenB), 100 * 10**18, 50 * 10**18, _options(0, true, 0, address(0))
+        );
+        vm.stopPrank();
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.fillOperation(0, 25 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(escrow.getOperation(0).filledA, 99 * 10**18);
+        assertEq(taxed.balanceOf(address(escrow)), 0);
+    }
+
+    function test_CompleteOperation_RevertWhen_TokenBShortfall() public {
+        MockTaxedToken taxed = _deployTaxedToken();
+        escrow.addToken(address(tokenA));
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(address(tokenA), address(taxed), 100 * 10**18, 50 * 10**18);
+        vm.stopPrank();
+
+        vm.startPrank(user2);
+        taxed.approve(address(escrow), 50 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.TokenBShortfall.selector, 0, 50 * 10**18, 49.5 * 10**18));
+        escrow.completeOperation(0);
+        vm.stopPrank();
+    }
+
+    // ============ NFT Tests ============
+
+    // Item 0 belongs to user1 and item 1 to user2; both hold 10 of ERC1155 id 1 and 100 of id 2
+    function _deployCollections() internal returns (MockERC721 items, MockERC1155 multi) {
+        items = new MockERC721("Mock Items", "ITEM");
+        multi = new MockERC1155("Mock Multi", "MULTI");
+        items.mint(user1);
+        items.mint(user2);
+        multi.mint(user1, 1, 10);
+        multi.mint(user1, 2, 100);
+        multi.mint(user2, 1, 10);
+        multi.mint(user2, 2, 100);
+
+        escrow.addToken(address(tokenA));
+        escrow.addToken(address(tokenB));
+        escrow.addCollection(address(items), Escrow.AssetType.ERC721);
+        escrow.addCollection(address(multi), Escrow.AssetType.ERC1155);
+    }
+
+    function _itemOptions(uint256 tokenIdA, uint256 tokenIdB) internal pure returns (Escrow.OperationOptions memory) {
+        Escrow.OperationOptions memory options = _options(0, false, 0, address(0));
+        options.tokenIdA = tokenIdA;
+        options.tokenIdB = tokenIdB;
+        return options;
+    }
+
+    function test_AddCollection_Success() public {
+        MockERC721 items = new MockERC721("Mock Items", "ITEM");
+
+        vm.expectEmit(true, false, false, true);
+        emit TokenAdded(address(items), Escrow.AssetType.ERC721);
+        escrow.addCollection(address(items), Escrow.AssetType.ERC721);
+
+        assertTrue(escrow.allowedTokens(address(items)));
+        assertEq(uint(escrow.assetTypes(address(items))), uint(Escrow.AssetType.ERC721));
+    }
+
+    function test_AddCollection_RevertWhen_InterfaceMismatch() public {
+        MockERC721 items = new MockERC721("Mock Items", "ITEM");
+
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.InvalidAssetType.selector, address(items), Escrow.AssetType.ERC1155)
+        );
+        escrow.addCollection(address(items), Escrow.AssetType.ERC1155);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.InvalidAssetType.selector, address(tokenA), Escrow.AssetType.ERC721)
+        );
+        escrow.addCollection(address(tokenA), Escrow.AssetType.ERC721);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.InvalidAssetType.selector, address(items), Escrow.AssetType.ERC20)
+        );
+        escrow.addCollection(address(items), Escrow.AssetType.ERC20);
+    }
+
+    function test_AddCollection_RevertWhen_NotOwner() public {
+        MockERC721 items = new MockERC721("Mock Items", "ITEM");
+
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, user1));
+        escrow.addCollection(address(items), Escrow.AssetType.ERC721);
+    }
+
+    function test_CompleteOperation_ItemForTokens() public {
+        (MockERC721 items,) = _deployCollections();
+        escrow.setFee(100);
+
+        vm.startPrank(user1);
+        items.approve(address(escrow), 0);
+        vm.expectEmit(true, false, false, true);
+        emit OperationAssets(0, Escrow.AssetType.ERC721, 0, Escrow.AssetType.ERC20, 0);
+        escrow.createOperation(address(items), address(tokenB), 1, 50 * 10**18, _itemOptions(0, 0));
+        vm.stopPrank();
+
+        assertEq(items.ownerOf(0), address(escrow));
+        Escrow.Operation memory op = escrow.getOperation(0);
+        assertEq(uint(op.assetTypeA), uint(Escrow.AssetType.ERC721));
+        assertEq(op.tokenIdA, 0);
+        // Items are never split, so no fee is taken
+        assertEq(escrow.previewFill(0, 50 * 10**18), 1);
+
+        uint256 user1BalanceB = tokenB.balanceOf(user1);
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(items.ownerOf(0), user2);
+        assertEq(tokenB.balanceOf(user1), user1BalanceB + 50 * 10**18);
+    }
+
+    function test_CompleteOperation_TokensForERC1155() public {
+        (, MockERC1155 multi) = _deployCollections();
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(address(tokenA), address(multi), 100 * 10**18, 5, _itemOptions(0, 1));
+        vm.stopPrank();
+
+        vm.startPrank(user2);
+        multi.setApprovalForAll(address(escrow), true);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(multi.balanceOf(user1, 1), 15);
+        assertEq(multi.balanceOf(user2, 1), 5);
+        assertEq(tokenA.balanceOf(user2), 1100 * 10**18);
+    }
+
+    function test_FillOperation_ERC1155ProRata() public {
+        (, MockERC1155 multi) = _deployCollections();
+
+        Escrow.OperationOptions memory options = _itemOptions(2, 0);
+        options.partiallyFillable = true;
+        vm.startPrank(user1);
+        multi.setApprovalForAll(address(escrow), true);
+        escrow.createOperation(address(multi), address(tokenB), 10, 100 * 10**18, options);
+        vm.stopPrank();
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 50 * 10**18);
+        escrow.fillOperation(0, 50 * 10**18);
+        vm.stopPrank();
+
+        assertEq(multi.balanceOf(user2, 2), 105);
+        assertEq(multi.balanceOf(address(escrow), 2), 5);
+    }
+
+    function test_FillOperation_TakesFeeFromERC1155() public {
+        (, MockERC1155 multi) = _deployCollections();
+        address treasury = makeAddr("treasury");
+        escrow.setFee(500);
+        escrow.setFeeRecipient(treasury);
+
+        Escrow.OperationOptions memory options = _itemOptions(2, 0);
+        options.partiallyFillable = true;
+        vm.startPrank(user1);
+        multi.setApprovalForAll(address(escrow), true);
+        escrow.createOperation(address(multi), address(tokenB), 100, 100 * 10**18, options);
+        vm.stopPrank();
+
+        // ERC1155 amounts are fungible, so they pay the fee like ERC20s: 5% of 40
+        assertEq(escrow.previewFill(0, 40 * 10**18), 38);
+
+        vm.startPrank(user2);
+        tokenB.approve(address(escrow), 40 * 10**18);
+        vm.expectEmit(true, true, false, true);
+        emit OperationFilled(0, user2, 40, 40 * 10**18, 2);
+        escrow.fillOperation(0, 40 * 10**18);
+        vm.stopPrank();
+
+        assertEq(multi.balanceOf(user2, 2), 138);
+        assertEq(multi.balanceOf(treasury, 2), 2);
+        assertEq(multi.balanceOf(address(escrow), 2), 60);
+    }
+
+    function test_AddToken_RevertWhen_Collection() public {
+        MockERC721 items = new MockERC721("Mock Items", "ITEM");
+        MockERC1155 multi = new MockERC1155("Mock Multi", "MULTI");
+
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.InvalidAssetType.selector, address(items), Escrow.AssetType.ERC20)
+        );
+        escrow.addToken(address(items));
+
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.InvalidAssetType.selector, address(multi), Escrow.AssetType.ERC20)
+        );
+        escrow.addToken(address(multi));
+    }
+
+    function test_AddToken_RevertWhen_RelistingDelistedCollection() public {
+        (MockERC721 items,) = _deployCollections();
+        escrow.removeToken(address(items), true);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(Escrow.InvalidAssetType.selector, address(items), Escrow.AssetType.ERC20)
+        );
+        escrow.addToken(address(items));
+
+        escrow.addCollection(address(items), Escrow.AssetType.ERC721);
+        assertEq(uint(escrow.assetTypes(address(items))), uint(Escrow.AssetType.ERC721));
+    }
+
+    function test_CancelOperation_ReturnsItem() public {
+        (MockERC721 items,) = _deployCollections();
+
+        vm.startPrank(user1);
+        items.approve(address(escrow), 0);
+        escrow.createOperation(address(items), address(tokenB), 1, 50 * 10**18, _itemOptions(0, 0));
+        escrow.cancelOperation(0);
+        vm.stopPrank();
+
+        assertEq(items.ownerOf(0), user1);
+    }
+
+    function test_CreateOperation_RevertWhen_ItemAmountNotOne() public {
+        (MockERC721 items,) = _deployCollections();
+
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.InvalidItemAmount.selector, address(items), 2));
+        escrow.createOperation(address(tokenA), address(items), 100 * 10**18, 2, _itemOptions(0, 1));
+        vm.stopPrank();
+    }
+
+    function test_CreateOperation_RevertWhen_ItemPartiallyFillable() public {
+        (MockERC721 items,) = _deployCollections();
+
+        Escrow.OperationOptions memory options = _itemOptions(0, 0);
+        options.partiallyFillable = true;
+        vm.startPrank(user1);
+        items.approve(address(escrow), 0);
+        vm.expectRevert(Escrow.PartialFillUnsupported.selector);
+        escrow.createOperation(address(items), address(tokenB), 1, 50 * 10**18, options);
+        vm.stopPrank();
+    }
+
+    // ============ Native ETH Tests ============
+
+    // user1 and user2 start with 100 ETH each
+    function _listWeth() internal {
+        escrow.addToken(address(weth));
+        escrow.addToken(address(tokenA));
+        vm.deal(user1, 100 ether);
+        vm.deal(user2, 100 ether);
+    }
+
+    // user1 offers 1 ETH for 100 TKA
+    function _createEthOperation() internal {
+        vm.prank(user1);
+        escrow.createOperation{value: 1 ether}(address(weth), address(tokenA), 1 ether, 100 * 10**18);
+    }
+
+    // user1 offers 100 TKA for 1 ETH
+    function _createTokenForEthOperation(bool partiallyFillable) internal {
+        vm.startPrank(user1);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(
+            address(tokenA), address(weth), 100 * 10**18, 1 ether, _options(0, partiallyFillable, 0, address(0))
+        );
+        vm.stopPrank();
+    }
+
+    function test_CreateOperation_WithETH() public {
+        _listWeth();
+        _createEthOperation();
+
+        Escrow.Operation memory op = escrow.getOperation(0);
+        assertEq(op.tokenA, address(weth));
+        assertEq(op.amountA, 1 ether);
+        assertEq(weth.balanceOf(address(escrow)), 1 ether);
+        assertEq(user1.balance, 99 ether);
+        assertEq(address(escrow).balance, 0);
+    }
+
+    function test_CompleteOperation_PaysOutTokenAAsETH() public {
+        _listWeth();
+        _createEthOperation();
+
+        vm.startPrank(user2);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(user2.balance, 101 ether);
+        assertEq(weth.balanceOf(user2), 0);
+        assertEq(weth.balanceOf(address(escrow)), 0);
+        assertEq(tokenA.balanceOf(user1), 1100 * 10**18);
+    }
+
+    function test_CompleteOperation_WithETH() public {
+        _listWeth();
+        _createTokenForEthOperation(false);
+
+        vm.prank(user2);
+        escrow.completeOperation{value: 1 ether}(0);
+
+        assertEq(user1.balance, 101 ether);
+        assertEq(user2.balance, 99 ether);
+        assertEq(tokenA.balanceOf(user2), 1100 * 10**18);
+        assertEq(uint(escrow.getOperation(0).status), uint(Escrow.OperationStatus.Completed));
+    }
+
+    function test_CompleteOperation_WithWETHPaysCreatorETH() public {
+        _listWeth();
+        _createTokenForEthOperation(false);
+
+        vm.startPrank(user2);
+        weth.deposit{value: 1 ether}();
+        weth.approve(address(escrow), 1 ether);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(user1.balance, 101 ether);
+        assertEq(weth.balanceOf(user1), 0);
+        assertEq(weth.balanceOf(user2), 0);
+    }
+
+    function test_FillOperation_WithETH() public {
+        _listWeth();
+        _createTokenForEthOperation(true);
+
+        vm.prank(user2);
+        escrow.fillOperation{value: 0.25 ether}(0, 0.25 ether);
+
+        assertEq(user1.balance, 100.25 ether);
+        assertEq(tokenA.balanceOf(user2), 1025 * 10**18);
+        assertEq(escrow.getOperation(0).filledB, 0.25 ether);
+    }
+
+    function test_CancelOperation_RefundsETH() public {
+        _listWeth();
+        _createEthOperation();
+
+        vm.prank(user1);
+        escrow.cancelOperation(0);
+
+        assertEq(user1.balance, 100 ether);
+        assertEq(weth.balanceOf(address(escrow)), 0);
+    }
+
+    function test_CompleteOperation_FeeStaysWrapped() public {
+        _listWeth();
+        escrow.setFee(100);
+        _createEthOperation();
+
+        vm.startPrank(user2);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.completeOperation(0);
+        vm.stopPrank();
+
+        assertEq(user2.balance, 100.99 ether);
+        assertEq(weth.balanceOf(owner), 0.01 ether);
+    }
+
+    function test_CompleteOperation_CreatorRejectingETHGetsWETH() public {
+        _listWeth();
+        // MockToken has no receive function, so it stands in for a contract that rejects ETH
+        address creator = address(tokenC);
+        tokenA.transfer(creator, 100 * 10**18);
+        vm.startPrank(creator);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        escrow.createOperation(address(tokenA), address(weth), 100 * 10**18, 1 ether);
+        vm.stopPrank();
+
+        vm.prank(user2);
+        escrow.completeOperation{value: 1 ether}(0);
+
+        assertEq(creator.balance, 0);
+        assertEq(weth.balanceOf(creator), 1 ether);
+    }
+
+    function test_CreateOperation_RevertWhen_ETHForOtherToken() public {
+        _listWeth();
+        escrow.addToken(address(tokenB));
+
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.NativeNotAccepted.selector, address(tokenA)));
+        escrow.createOperation{value: 1 ether}(address(tokenA), address(tokenB), 1 ether, 1 ether);
+    }
+
+    function test_CreateOperation_RevertWhen_ETHAmountMismatch() public {
+        _listWeth();
+
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.InvalidNativeAmount.selector, 0.5 ether, 1 ether));
+        escrow.createOperation{value: 0.5 ether}(address(weth), address(tokenA), 1 ether, 100 * 10**18);
+    }
+
+    function test_CompleteOperation_RevertWhen_ETHForOtherToken() public {
+        _listWeth();
+        _createEthOperation();
+
+        vm.startPrank(user2);
+        tokenA.approve(address(escrow), 100 * 10**18);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.NativeNotAccepted.selector, address(tokenA)));
+        escrow.completeOperation{value: 1 ether}(0);
+        vm.stopPrank();
+    }
+
+    function test_CompleteOperation_RevertWhen_ETHAmountMismatch() public {
+        _listWeth();
+        _createTokenForEthOperation(false);
+
+        vm.prank(user2);
+        vm.expectRevert(abi.encodeWithSelector(Escrow.InvalidNativeAmount.selector, 0.5 ether, 1 ether));
+        escrow.completeOperation{value: 0.5 ether}(0);
+    }
+
+    function test_Receive_RevertWhen_NotWETH() public {
+        vm.deal(user1, 1 ether);
+
+        vm.prank(user1);
+        (bool sent, ) = address(escrow).call{value: 1 ether}("");
+
+        assertFalse(sent);
+        assertEq(address(escrow).balance, 0);
+    }
+
     // ============ Integration Tests ============
 
     function test_FullWorkflow_CreateCompleteCancel() public {
@@ -0,0 +1,15 @@
+'use client';
+
+import PageLayout from '../../components/PageLayout';
+import NetworkGuard from '../../components/NetworkGuard';
+import AdminConsole from '../../components/AdminConsole';
+
+export default function AdminPage() {
+  return (
+    <PageLayout>
+      <NetworkGuard>
+        <AdminConsole />
+      </NetworkGuard>
+    </PageLayout>
+  );
+}
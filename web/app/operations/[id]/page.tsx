@@ -0,0 +1,27 @@
+'use client';
+
+import Link from 'next/link';
+import PageLayout from '../../../components/PageLayout';
+import NetworkGuard from '../../../components/NetworkGuard';
+import OperationDetail from '../../../components/OperationDetail';
+
+export default function OperationPage({ params }: { params: { id: string } }) {
+  const isValidId = /^\d+$/.test(params.id);
+
+  return (
+    <PageLayout>
+      <Link href="/" className="inline-block mb-4 text-sm text-blue-600 hover:underline">
+        ← All operations
+      </Link>
+      {isValidId ? (
+        <NetworkGuard>
+          <OperationDetail operationId={BigInt(params.id)} />
+        </NetworkGuard>
+      ) : (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-gray-500">&quot;{params.id}&quot; is not a valid operation id</p>
+        </div>
+      )}
+    </PageLayout>
+  );
+}
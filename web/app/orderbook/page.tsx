@@ -0,0 +1,15 @@
+'use client';
+
+import PageLayout from '../../components/PageLayout';
+import NetworkGuard from '../../components/NetworkGuard';
+import OrderBook from '../../components/OrderBook';
+
+export default function OrderBookPage() {
+  return (
+    <PageLayout>
+      <NetworkGuard>
+        <OrderBook />
+      </NetworkGuard>
+    </PageLayout>
+  );
+}
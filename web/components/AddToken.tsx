@@ -1,124 +1,183 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ethers } from 'ethers';
-import { useEthereum } from '../lib/ethereum';
-import { ESCROW_ADDRESS, EscrowABI, ERC20ABI } from '../lib/contracts';
+import { useCallback, useState } from 'react';
+import { isAddress } from 'viem';
+import type { Address, Hash } from 'viem';
+import { ASSET_TYPE_LABELS, isCollection } from '../lib/assets';
+import { AssetType, OperationStatus } from '../lib/escrow';
+import { errorMessage } from '../lib/errors';
+import { useOperations } from '../lib/operations';
+import { probeToken, TokenProbeReport } from '../lib/tokenProbe';
+import { TokenMetadata, useTokens } from '../lib/tokens';
+import { useTransactions } from '../lib/transactions';
 import {useAccount, usePublicClient} from 'wagmi';
 import {useEscrowContract} from '../hooks/useEscrowContract';
-import {useAutoRefresh} from '../hooks/useAutoRefresh';
-import {useTokenContract} from '../hooks/useTokenContract';
-import { BrowserProvider } from 'ethers';
+import { usePreflight, usePreflightReason } from '../hooks/usePreflight';
+import AssetTypeSelect from './AssetTypeSelect';
+import ProbeReport from './ProbeReport';
 
+const shortAddress = (address: Address) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+/**
+ * Allow a new token or NFT collection on the escrow, delist allowed ones and re-list delisted ones.
+ * New ERC20 tokens are probed first and only listed once the owner confirms the report; collections
+ * are checked by the contract itself through ERC165. Rendered in the admin console only.
+ */
 export default function AddToken() {
   const { address } = useAccount();
   const publicClient = usePublicClient();
-  const { getContract, getReadContract } = useEscrowContract();
+  const { escrowAddress, getContract } = useEscrowContract();
+  const { operations, refresh } = useOperations();
+  const { tokens: allowedTokens, delistedTokens } = useTokens();
   const [tokenAddress, setTokenAddress] = useState('');
-  const [allowedTokens, setAllowedTokens] = useState<{ address: string; symbol: string; name: string }[]>([]);
+  const [assetType, setAssetType] = useState(AssetType.ERC20);
+  const [report, setReport] = useState<TokenProbeReport | null>(null);
+  const [probing, setProbing] = useState(false);
+  const [delisting, setDelisting] = useState<TokenMetadata | null>(null);
+  const [keepCompletable, setKeepCompletable] = useState(true);
   const [loading, setLoading] = useState(false);
-  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const { runFlow, notify } = useTransactions();
+  const { checkAddToken, checkRemoveToken } = usePreflight();
 
-  const loadAllowedTokens = async () => {
-    if (!publicClient) return;
+  // Without a valid address this still checks ownership
+  const addTokenCheck = useCallback(
+    () => checkAddToken(isAddress(tokenAddress) ? tokenAddress : undefined, assetType),
+    [tokenAddress, assetType, checkAddToken]
+  );
+  const { reason: blockedReason, isChecking } = usePreflightReason(addTokenCheck);
+  const isBlocked = !tokenAddress || isChecking || !!blockedReason;
 
-    try {
-      const contract = await getReadContract();
-      if (!contract) return;
+  const removeTokenCheck = useCallback(
+    () => (delisting ? checkRemoveToken(delisting.address, keepCompletable) : Promise.resolve(null)),
+    [delisting, keepCompletable, checkRemoveToken]
+  );
+  const { reason: delistReason, isChecking: isCheckingDelist } = usePreflightReason(
+    delisting ? removeTokenCheck : null
+  );
 
-      const tokens = await contract.getAllowedTokens();
+  // Live operations that the delisting decision applies to
+  const activeUsing = (token: Address) =>
+    operations.filter(
+      (op) =>
+        op.status === OperationStatus.Active &&
+        (op.tokenA.toLowerCase() === token.toLowerCase() || op.tokenB.toLowerCase() === token.toLowerCase())
+    ).length;
 
-      if (tokens.length === 0) {
-        setAllowedTokens([]);
-        return;
-      }
+  const runTokenCall = async (title: string, label: string, send: () => Promise<Hash>) => {
+    setLoading(true);
 
-      const provider = new BrowserProvider(publicClient as any);
-
-      const tokensWithInfo = await Promise.all(
-        tokens.map(async (tokenAddr: string) => {
-          try {
-            const token = new ethers.Contract(tokenAddr, ERC20ABI, provider);
-            const symbol = await token.symbol();
-            const name = await token.name();
-            return { address: tokenAddr, symbol, name };
-          } catch (error) {
-            console.error('Failed to load token:', error);
-            return null;
-          }
-        })
-      );
-
-      // Filter out null values
-      const validTokens = tokensWithInfo.filter((t): t is { address: string; symbol: string; name: string } => t !== null);
-      setAllowedTokens(validTokens);
-    } catch (error) {
-      console.error('Failed to load allowed tokens:', error);
-      setAllowedTokens([]);
-    }
+    const { result } = runFlow(title, [
+      {
+        label,
+        run: send,
+        // Pick up the TokenAdded / TokenDelisted event right away
+        track: async (_hash, confirmation) => {
+          await confirmation;
+          await refresh();
+        },
+      },
+    ]);
+
+    const succeeded = await result;
+    setLoading(false);
+    return succeeded;
   };
 
-  useEffect(() => {
-    loadAllowedTokens();
-  }, [address, publicClient]);
+  const addToken = async (token: Address, type: AssetType, title: string) => {
+    const contract = getContract();
+    if (!address || !contract) {
+      notify('error', 'Please connect your wallet first');
+      return false;
+    }
 
-  useAutoRefresh(loadAllowedTokens);
+    return runTokenCall(title, `${title} ${shortAddress(token)}`, async () => {
+      if (type === AssetType.ERC20) {
+        await contract.simulate.addToken([token], { account: address });
+        return contract.write.addToken([token]);
+      }
+      await contract.simulate.addCollection([token, type], { account: address });
+      return contract.write.addCollection([token, type]);
+    });
+  };
 
   const handleAddToken = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!address) {
-      setMessage({ type: 'error', text: 'Please connect your wallet first' });
+    if (!isAddress(tokenAddress)) {
+      notify('error', 'Invalid token address');
       return;
     }
 
-    setLoading(true);
-    setMessage(null);
+    if (!address || !escrowAddress || !publicClient) {
+      notify('error', 'Please connect your wallet first');
+      return;
+    }
 
-    try {
-      const contract = await getContract();
-      if (!contract) throw new Error('Contract not available');
+    // The ERC20 probe does not apply to collections
+    if (isCollection(assetType)) {
+      if (await addToken(tokenAddress, assetType, 'Add collection')) setTokenAddress('');
+      return;
+    }
 
-      const tx = await contract.addToken(tokenAddress);
-      await tx.wait();
+    setProbing(true);
+    try {
+      setReport(await probeToken(publicClient, tokenAddress, address, escrowAddress));
+    } catch (error) {
+      notify('error', errorMessage(error, 'Failed to check the token'));
+    } finally {
+      setProbing(false);
+    }
+  };
 
-      setMessage({ type: 'success', text: 'Token added successfully!' });
+  const handleConfirmAdd = async () => {
+    if (!report) return;
+    if (await addToken(report.token, AssetType.ERC20, 'Add token')) {
       setTokenAddress('');
-
-      // Reload tokens list
-      await loadAllowedTokens();
-    } catch (error: any) {
-      console.error('Failed to add token:', error);
-      setMessage({
-        type: 'error',
-        text: error.message || 'Failed to add token. Make sure you are the owner.'
-      });
-    } finally {
-      setLoading(false);
+      setReport(null);
     }
   };
 
-  if (!address) {
-    return (
-      <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-xl font-bold mb-4">Add Token (Owner Only)</h2>
-        <p className="text-gray-500">Please connect your wallet first</p>
-      </div>
-    );
-  }
+  const handleDelist = async () => {
+    const contract = getContract();
+    if (!address || !contract || !delisting) {
+      notify('error', 'Please connect your wallet first');
+      return;
+    }
+
+    const token = delisting.address;
+    const completable = keepCompletable;
+    const succeeded = await runTokenCall('Delist token', `Delist ${delisting.symbol}`, async () => {
+      await contract.simulate.removeToken([token, completable], { account: address });
+      return contract.write.removeToken([token, completable]);
+    });
+    if (succeeded) setDelisting(null);
+  };
 
   return (
     <div className="bg-white rounded-lg shadow p-6">
-      <h2 className="text-xl font-bold mb-4">Add Token (Owner Only)</h2>
+      <h2 className="text-xl font-bold mb-4">Tokens</h2>
 
       <div className="mb-4 p-3 bg-blue-50 rounded border border-blue-200">
         <p className="text-sm text-blue-800">
           <strong>Escrow Contract:</strong>
         </p>
-        <p className="text-xs text-blue-600 font-mono break-all">{ESCROW_ADDRESS}</p>
+        <p className="text-xs text-blue-600 font-mono break-all">{escrowAddress}</p>
       </div>
 
       <form onSubmit={handleAddToken} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Asset Type
+          </label>
+          <AssetTypeSelect
+            value={assetType}
+            onChange={(type) => {
+              setAssetType(type);
+              setReport(null);
+            }}
+          />
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Token Address
@@ -126,52 +185,129 @@ export default function AddToken() {
           <input
             type="text"
             value={tokenAddress}
-            onChange={(e) => setTokenAddress(e.target.value)}
+            onChange={(e) => {
+              setTokenAddress(e.target.value);
+              setReport(null);
+            }}
             placeholder="0x..."
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             required
           />
         </div>
 
-        <button
-          type="submit"
-          disabled={loading || !tokenAddress}
-          className={`w-full py-2 rounded-lg transition ${
-            loading || !tokenAddress
-              ? 'bg-gray-400 cursor-not-allowed'
-              : 'bg-blue-500 hover:bg-blue-600 text-white'
-          }`}
-        >
-          {loading ? 'Adding Token...' : 'Add Token'}
-        </button>
+        {report ? (
+          <ProbeReport
+            report={report}
+            loading={loading}
+            onConfirm={handleConfirmAdd}
+            onCancel={() => setReport(null)}
+          />
+        ) : (
+          <button
+            type="submit"
+            disabled={loading || probing || isBlocked}
+            className={`w-full py-2 rounded-lg transition ${
+              loading || probing || isBlocked
+                ? 'bg-gray-400 cursor-not-allowed'
+                : 'bg-blue-500 hover:bg-blue-600 text-white'
+            }`}
+          >
+            {isCollection(assetType)
+              ? loading
+                ? 'Adding Collection...'
+                : 'Add Collection'
+              : probing
+                ? 'Checking Token...'
+                : 'Check Token'}
+          </button>
+        )}
+        {blockedReason && <p className="text-xs text-red-600 text-center">{blockedReason}</p>}
       </form>
 
-      {message && (
-        <div
-          className={`mt-4 p-3 rounded ${
-            message.type === 'success'
-              ? 'bg-green-100 text-green-800 border border-green-300'
-              : 'bg-red-100 text-red-800 border border-red-300'
-          }`}
-        >
-          {message.text}
-        </div>
-      )}
-
       {allowedTokens.length > 0 && (
         <div className="mt-6">
           <h3 className="font-semibold mb-2">Allowed Tokens ({allowedTokens.length})</h3>
           <div className="space-y-2">
-            {allowedTokens.map((token, index) => (
-              <div key={index} className="p-3 bg-gray-50 rounded border border-gray-200">
+            {allowedTokens.map((token) => (
+              <div key={token.address} className="p-3 bg-gray-50 rounded border border-gray-200">
                 <div className="flex justify-between items-center">
                   <div>
                     <p className="font-medium">{token.symbol}</p>
-                    <p className="text-xs text-gray-500">{token.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {token.name} ·{' '}
+                      {isCollection(token.assetType)
+                        ? ASSET_TYPE_LABELS[token.assetType]
+                        : `${token.decimals} decimals`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <p className="text-xs text-gray-600 font-mono">{shortAddress(token.address)}</p>
+                    <button
+                      onClick={() => {
+                        setDelisting(delisting?.address === token.address ? null : token);
+                        setKeepCompletable(true);
+                      }}
+                      disabled={loading}
+                      className="px-2 py-1 text-xs rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50 transition"
+                    >
+                      {delisting?.address === token.address ? 'Keep' : 'Delist'}
+                    </button>
+                  </div>
+                </div>
+
+                {delisting?.address === token.address && (
+                  <div className="mt-3 pt-3 border-t border-gray-200 space-y-2 text-sm">
+                    <p className="text-gray-700">
+                      New operations will no longer accept {token.symbol}. {activeUsing(token.address)} active
+                      operation(s) use it and stay cancellable.
+                    </p>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={keepCompletable}
+                        onChange={(e) => setKeepCompletable(e.target.checked)}
+                      />
+                      Let active operations still be completed
+                    </label>
+                    <button
+                      onClick={handleDelist}
+                      disabled={loading || isCheckingDelist || !!delistReason}
+                      className="w-full py-2 rounded-lg bg-red-500 hover:bg-red-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+                    >
+                      {loading ? 'Delisting...' : `Delist ${token.symbol}`}
+                    </button>
+                    {delistReason && <p className="text-xs text-red-600 text-center">{delistReason}</p>}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {delistedTokens.length > 0 && (
+        <div className="mt-6">
+          <h3 className="font-semibold mb-2">Delisted Tokens ({delistedTokens.length})</h3>
+          <div className="space-y-2">
+            {delistedTokens.map((token) => (
+              <div key={token.address} className="p-3 bg-gray-50 rounded border border-gray-200">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <p className="font-medium text-gray-600">{token.symbol}</p>
+                    <p className="text-xs text-gray-500">
+                      {token.completable ? 'Active operations can still be completed' : 'Active operations are frozen'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <p className="text-xs text-gray-600 font-mono">{shortAddress(token.address)}</p>
+                    <button
+                      onClick={() => addToken(token.address, token.assetType, 'Re-list token')}
+                      disabled={loading}
+                      className="px-2 py-1 text-xs rounded bg-blue-100 hover:bg-blue-200 text-blue-800 disabled:opacity-50 transition"
+                    >
+                      Re-list
+                    </button>
                   </div>
-                  <p className="text-xs text-gray-600 font-mono">
-                    {token.address.substring(0, 6)}...{token.address.substring(token.address.length - 4)}
-                  </p>
                 </div>
               </div>
             ))}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useAccount } from 'wagmi';
+import { useEscrowOwner } from '../hooks/useEscrowOwner';
+import AddToken from './AddToken';
+import EscrowStats from './EscrowStats';
+import FeeSettings from './FeeSettings';
+import OwnershipTransfer from './OwnershipTransfer';
+import PauseControl from './PauseControl';
+
+/**
+ * Owner tools. Everyone else only gets a notice, except an account that has been offered
+ * ownership, which sees the card to accept it.
+ */
+export default function AdminConsole() {
+  const { address } = useAccount();
+  const { isOwner, isPendingOwner, isLoading } = useEscrowOwner();
+
+  if (!isOwner) {
+    return (
+      <div className="max-w-xl mx-auto space-y-6">
+        {isPendingOwner ? (
+          <OwnershipTransfer />
+        ) : (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-bold mb-4">Admin</h2>
+            <p className="text-gray-500">
+              {!address
+                ? 'Please connect your wallet first'
+                : isLoading
+                  ? 'Checking ownership...'
+                  : 'The admin console is only available to the escrow owner'}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-6">
+        <AddToken />
+      </div>
+      <div className="space-y-6">
+        <PauseControl />
+        <EscrowStats />
+      </div>
+      <div className="space-y-6">
+        <FeeSettings />
+        <OwnershipTransfer />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import type { ApprovalMode } from '../hooks/useTokenApproval';
+
+interface ApprovalModeSelectProps {
+  value: ApprovalMode;
+  onChange: (mode: ApprovalMode) => void;
+  // undefined when it depends on the token of each operation
+  permitAvailable?: boolean;
+  className?: string;
+}
+
+export default function ApprovalModeSelect({ value, onChange, permitAvailable, className }: ApprovalModeSelectProps) {
+  return (
+    <select
+      value={permitAvailable === false && value === 'permit' ? 'exact' : value}
+      onChange={(e) => onChange(e.target.value as ApprovalMode)}
+      className={
+        className ??
+        'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+      }
+    >
+      {permitAvailable !== false && (
+        <option value="permit">
+          {permitAvailable ? 'Permit signature (1 transaction)' : 'Permit signature when supported'}
+        </option>
+      )}
+      <option value="exact">Approve exact amount</option>
+      <option value="unlimited">Approve unlimited</option>
+    </select>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { ASSET_TYPE_LABELS } from '../lib/assets';
+import { AssetType } from '../lib/escrow';
+
+interface AssetTypeSelectProps {
+  value: AssetType;
+  onChange: (assetType: AssetType) => void;
+  className?: string;
+}
+
+export default function AssetTypeSelect({ value, onChange, className }: AssetTypeSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value) as AssetType)}
+      className={
+        className ??
+        'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+      }
+    >
+      {[AssetType.ERC20, AssetType.ERC721, AssetType.ERC1155].map((assetType) => (
+        <option key={assetType} value={assetType}>
+          {ASSET_TYPE_LABELS[assetType]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,40 +1,43 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ethers } from 'ethers';
-import { useEthereum } from '../lib/ethereum';
-import { ESCROW_ADDRESS, EscrowABI, ERC20ABI, TEST_ACCOUNTS } from '../lib/contracts';
+import { useState, useEffect, useCallback } from 'react';
+import { formatEther } from 'viem';
+import type { Address } from 'viem';
+import { TEST_ACCOUNTS, erc20Abi } from '../lib/contracts';
+import { AssetType } from '../lib/escrow';
+import { useTokens } from '../lib/tokens';
+import type { TokenMetadata } from '../lib/tokens';
+import { formatTokenAmount } from '../lib/amounts';
 import {useAccount, usePublicClient} from 'wagmi';
-import {useEscrowContract} from '../hooks/useEscrowContract';
-import {useAutoRefresh} from '../hooks/useAutoRefresh';
-import { BrowserProvider } from 'ethers';
+import {useTokenContract} from '../hooks/useTokenContract';
+import { useDeployment } from '../hooks/useDeployment';
 interface Balance {
-  address: string;
+  address: Address;
   label: string;
   eth: string;
   tokens: { symbol: string; balance: string }[];
 }
 
+// The rest of the app shows WETH as ETH; here it sits next to the plain ETH balance, so keep its real name
+const tokenSymbol = (tokenInfo: TokenMetadata) => (tokenInfo.native ? 'WETH' : tokenInfo.symbol);
+
 export default function BalanceDebug() {
   const { address } = useAccount();
-  const publicClient = usePublicClient();
-  const { getReadContract } = useEscrowContract();
+  const deployment = useDeployment();
+  const publicClient = usePublicClient({ chainId: deployment?.chainId });
+  const { tokens: allowedTokens } = useTokens();
+  const { getReadContract: getTokenReadContract } = useTokenContract();
   const [balances, setBalances] = useState<Balance[]>([]);
   const [loading, setLoading] = useState(false);
 
-  const loadBalances = async () => {
-    if (!publicClient) return;
-    const provider = new BrowserProvider(publicClient as any);
+  const loadBalances = useCallback(async () => {
+    if (!publicClient || !deployment) return;
 
     setLoading(true);
 
     try {
-      const escrow = await getReadContract();
-      if (!escrow) return;
-      const allowedTokens = await escrow.getAllowedTokens();
-
       const accounts = [
-        { address: ESCROW_ADDRESS, label: 'Escrow Contract', isContract: true },
+        { address: deployment.escrow.address, label: 'Escrow Contract', isContract: true },
         { address: TEST_ACCOUNTS.account0, label: 'Account #0', isContract: false },
         { address: TEST_ACCOUNTS.account1, label: 'Account #1', isContract: false },
         { address: TEST_ACCOUNTS.account2, label: 'Account #2', isContract: false },
@@ -44,33 +47,35 @@ export default function BalanceDebug() {
 
       for (const acc of accounts) {
         // Get ETH balance
-        const ethBalance = await provider.getBalance(acc.address);
+        const ethBalance = await publicClient.getBalance({ address: acc.address });
 
-        // Get token balances
+        // Get token balances (ERC721 counts items; ERC1155 has no balance across ids)
         const tokenBalances = await Promise.all(
-          allowedTokens.map(async (tokenAddr: string) => {
-            try {
-              const token = new ethers.Contract(tokenAddr, ERC20ABI, provider);
-              const balance = await token.balanceOf(acc.address);
-              const symbol = await token.symbol();
-              return {
-                symbol,
-                balance: ethers.formatEther(balance),
-              };
-            } catch (error) {
-              console.error(`Failed to load token ${tokenAddr} for ${acc.label}:`, error);
-              return {
-                symbol: 'Unknown',
-                balance: '0.0',
-              };
-            }
-          })
+          allowedTokens
+            .filter((tokenInfo) => tokenInfo.assetType !== AssetType.ERC1155)
+            .map(async (tokenInfo) => {
+              try {
+                const token = getTokenReadContract(tokenInfo.address);
+                if (!token) throw new Error('Token contract not available');
+                const balance = await token.read.balanceOf([acc.address]);
+                return {
+                  symbol: tokenSymbol(tokenInfo),
+                  balance: formatTokenAmount(balance, tokenInfo.decimals),
+                };
+              } catch (error) {
+                console.error(`Failed to load token ${tokenInfo.address} for ${acc.label}:`, error);
+                return {
+                  symbol: tokenSymbol(tokenInfo),
+                  balance: '0',
+                };
+              }
+            })
         );
 
         balancesData.push({
           address: acc.address,
           label: acc.label,
-          eth: ethers.formatEther(ethBalance),
+          eth: formatEther(ethBalance),
           tokens: tokenBalances,
         });
       }
@@ -81,10 +86,26 @@ export default function BalanceDebug() {
     } finally {
       setLoading(false);
     }
-  };
- 
-  useAutoRefresh(loadBalances); 
-
+  }, [deployment, publicClient, allowedTokens, getTokenReadContract]);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  // Update balances in place whenever any allowed token moves
+  useEffect(() => {
+    if (!publicClient || allowedTokens.length === 0) return;
+
+    return publicClient.watchContractEvent({
+      address: allowedTokens.map((token) => token.address),
+      abi: erc20Abi,
+      eventName: 'Transfer',
+      onLogs: () => {
+        loadBalances();
+      },
+      onError: (error) => console.error('Transfer event subscription failed:', error),
+    });
+  }, [publicClient, allowedTokens, loadBalances]);
 
   const formatAddress = (address: string) => {
     return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
@@ -145,7 +166,7 @@ export default function BalanceDebug() {
                     >
                       <span className="text-sm text-gray-600">{token.symbol}</span>
                       <span className="font-mono text-sm">
-                        {parseFloat(token.balance).toFixed(2)}
+                        {token.balance}
                       </span>
                     </div>
                   ))
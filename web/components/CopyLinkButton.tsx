@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { operationPath } from '../lib/routes';
+import { useTransactions } from '../lib/transactions';
+
+/**
+ * Copies a shareable link to an operation's detail page
+ */
+export default function CopyLinkButton({ operationId }: { operationId: bigint }) {
+  const { notify } = useTransactions();
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${operationPath(operationId)}`);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      notify('error', 'Could not copy the link');
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={copy}
+      className="px-2 py-1 text-xs rounded bg-gray-100 hover:bg-gray-200 text-gray-700 transition"
+    >
+      {copied ? 'Copied!' : 'Copy link'}
+    </button>
+  );
+}
@@ -1,111 +1,309 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ethers, BrowserProvider } from 'ethers';
-import { ESCROW_ADDRESS, ERC20ABI } from '../lib/contracts';
-import {useAccount, usePublicClient} from 'wagmi';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { isAddress, zeroAddress } from 'viem';
+import type { Address, Hash, TransactionReceipt } from 'viem';
+import { formatTokenAmount, inputStep, parseTokenAmount, validateTokenAmount } from '../lib/amounts';
+import { DEADLINE_PRESETS, nowSeconds, parseDeadlineInput } from '../lib/deadlines';
+import { errorMessage } from '../lib/errors';
+import { isCollection } from '../lib/assets';
+import { AssetType, decodeEscrowEvents } from '../lib/escrow';
+import type { OperationOptions } from '../lib/escrow';
+import { useOperations } from '../lib/operations';
+import { useTokens } from '../lib/tokens';
+import { FlowStepDefinition, useTransactions } from '../lib/transactions';
+import {useAccount} from 'wagmi';
 import {useEscrowContract} from '../hooks/useEscrowContract';
-import {useTokenContract} from '../hooks/useTokenContract';
+import { ApprovalMode, PermitSignature, useTokenApproval } from '../hooks/useTokenApproval';
+import { usePreflight, usePreflightReason } from '../hooks/usePreflight';
+import ApprovalModeSelect from './ApprovalModeSelect';
+import AssetTypeSelect from './AssetTypeSelect';
+import FlowSteps from './FlowSteps';
+import ItemPicker from './ItemPicker';
+import RatePreview from './RatePreview';
+
+// Token ids are plain non-negative integers
+const parseTokenId = (value: string) => (/^\d+$/.test(value) ? BigInt(value) : null);
 
 export default function CreateOperation() {
   const { address } = useAccount();
-  const publicClient = usePublicClient();
-  const { getContract, getReadContract } = useEscrowContract();
-
-  const [tokenA, setTokenA] = useState('');
-  const [tokenB, setTokenB] = useState('');
-  const [amountA, setAmountA] = useState('');
-  const [amountB, setAmountB] = useState('');
-  const [allowedTokens, setAllowedTokens] = useState<{ address: string; symbol: string }[]>([]);
+  const { getContract } = useEscrowContract();
+  const { paused, trackPending } = useOperations();
+  const { flows, runFlow, notify } = useTransactions();
+  const { tokens: allowedTokens, getToken } = useTokens();
+  const { getAllowance, supportsPermit, approve, signPermit, isCollectionApproved, approveCollection } =
+    useTokenApproval();
+  const { checkCreate } = usePreflight();
+
+  const [assetTypeA, setAssetTypeA] = useState(AssetType.ERC20);
+  const [assetTypeB, setAssetTypeB] = useState(AssetType.ERC20);
+  const [tokenA, setTokenA] = useState<Address | ''>('');
+  const [tokenB, setTokenB] = useState<Address | ''>('');
+  const [amountAInput, setAmountA] = useState('');
+  const [amountBInput, setAmountB] = useState('');
+  const [tokenIdA, setTokenIdA] = useState('');
+  const [tokenIdB, setTokenIdB] = useState('');
+  // Index into DEADLINE_PRESETS, or 'custom' for the date picker
+  const [deadlineChoice, setDeadlineChoice] = useState<number | 'custom'>(0);
+  const [customDeadline, setCustomDeadline] = useState('');
+  const [partiallyFillable, setPartiallyFillable] = useState(false);
+  const [minFill, setMinFill] = useState('');
+  const [counterparty, setCounterparty] = useState('');
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('permit');
+  const [permitAvailable, setPermitAvailable] = useState(false);
+  const [allowance, setAllowance] = useState<bigint | null>(null);
+  const [collectionApproved, setCollectionApproved] = useState<boolean | null>(null);
   const [loading, setLoading] = useState(false);
-  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [flowId, setFlowId] = useState<string | null>(null);
 
-  useEffect(() => {
-    const loadTokens = async () => {
-      if (!publicClient) return;
+  const flow = flows.find((f) => f.id === flowId);
 
-      try {
-        const contract = await getReadContract();
-        if (!contract) return;
+  const tokenAInfo = tokenA ? getToken(tokenA) : undefined;
+  const tokenBInfo = tokenB ? getToken(tokenB) : undefined;
+  const isItemA = isCollection(assetTypeA);
+  const isItemB = isCollection(assetTypeB);
+  // ETH is sent along with the create call, so it needs no approval or permit
+  const isNativeA = !!tokenAInfo?.native;
+  // An ERC721 leg is always exactly one item
+  const amountA = assetTypeA === AssetType.ERC721 ? '1' : amountAInput;
+  const amountB = assetTypeB === AssetType.ERC721 ? '1' : amountBInput;
+  const parsedTokenIdA = isItemA ? parseTokenId(tokenIdA) : 0n;
+  const parsedTokenIdB = isItemB ? parseTokenId(tokenIdB) : 0n;
+  const tokenIdBError = isItemB && tokenIdB && parsedTokenIdB === null ? 'Enter a whole number' : null;
+  // Partial fills cannot split an ERC721 item
+  const canFillPartially = assetTypeA !== AssetType.ERC721 && assetTypeB !== AssetType.ERC721;
+  const amountAError = tokenAInfo && amountA ? validateTokenAmount(amountA, tokenAInfo.decimals) : null;
+  const amountBError = tokenBInfo && amountB ? validateTokenAmount(amountB, tokenBInfo.decimals) : null;
+  const isInvalid =
+    !tokenAInfo ||
+    !tokenBInfo ||
+    !amountA ||
+    !amountB ||
+    !!amountAError ||
+    !!amountBError ||
+    parsedTokenIdA === null ||
+    parsedTokenIdB === null;
+  const parsedAmountA = tokenAInfo && amountA && !amountAError ? parseTokenAmount(amountA, tokenAInfo.decimals) : null;
+  const parsedAmountB = tokenBInfo && amountB && !amountBError ? parseTokenAmount(amountB, tokenBInfo.decimals) : null;
+  const minFillError =
+    partiallyFillable && tokenBInfo && minFill ? validateTokenAmount(minFill, tokenBInfo.decimals) : null;
+  // An empty minimum accepts fills of any size
+  const parsedMinFill =
+    partiallyFillable && tokenBInfo && minFill && !minFillError ? parseTokenAmount(minFill, tokenBInfo.decimals) : 0n;
+  const counterpartyError = counterparty && !isAddress(counterparty) ? 'Enter a valid address' : null;
+  const counterpartyAddress = counterparty && !counterpartyError ? (counterparty as Address) : zeroAddress;
+  const allowanceCovers = allowance !== null && parsedAmountA !== null && allowance >= parsedAmountA;
 
-        const tokens = await contract.getAllowedTokens();
+  const customDeadlineValue = deadlineChoice === 'custom' ? parseDeadlineInput(customDeadline) : null;
+  const deadlineMissing = deadlineChoice === 'custom' && customDeadlineValue === null;
 
-        if (tokens.length === 0) {
-          setAllowedTokens([]);
-          return;
-        }
+  // Deadline presets are relative, so resolve them when the transaction is checked or sent
+  const resolveOptions = useCallback((): OperationOptions => {
+    let deadline = 0n;
+    if (deadlineChoice === 'custom') {
+      deadline = customDeadlineValue ?? 0n;
+    } else {
+      const { seconds } = DEADLINE_PRESETS[deadlineChoice];
+      deadline = seconds === null ? 0n : nowSeconds() + BigInt(seconds);
+    }
+    return {
+      deadline,
+      partiallyFillable,
+      minFill: parsedMinFill,
+      counterparty: counterpartyAddress,
+      tokenIdA: parsedTokenIdA ?? 0n,
+      tokenIdB: parsedTokenIdB ?? 0n,
+    };
+  }, [
+    deadlineChoice,
+    customDeadlineValue,
+    partiallyFillable,
+    parsedMinFill,
+    counterpartyAddress,
+    parsedTokenIdA,
+    parsedTokenIdB,
+  ]);
 
-        const provider = new BrowserProvider(publicClient as any);
-
-        const tokensWithSymbol = await Promise.all(
-          tokens.map(async (tokenAddr: string) => {
-            try {
-              const token = new ethers.Contract(tokenAddr, ERC20ABI, provider);
-              const symbol = await token.symbol();
-              return { address: tokenAddr, symbol };
-            } catch (error) {
-              console.error('Failed to load token:', error);
-              return { address: tokenAddr, symbol: 'Unknown' };
-            }
-          })
-        );
+  const hasFormError = deadlineMissing || !!minFillError || !!counterpartyError;
+  const createCheck = useMemo(
+    () =>
+      tokenA && tokenB && parsedAmountA && parsedAmountB && !isInvalid && !hasFormError && !paused
+        ? () => checkCreate(tokenA, tokenB, parsedAmountA, parsedAmountB, resolveOptions())
+        : null,
+    [tokenA, tokenB, parsedAmountA, parsedAmountB, isInvalid, hasFormError, paused, resolveOptions, checkCreate]
+  );
+  const { reason: preflightReason, isChecking } = usePreflightReason(createCheck);
+  const blockedReason = paused ? 'The escrow is paused, so no operations can be created' : preflightReason;
+  const isBlocked = isInvalid || hasFormError || isChecking || !!blockedReason;
 
-        setAllowedTokens(tokensWithSymbol);
-      } catch (error) {
-        console.error('Failed to load tokens:', error);
-        setAllowedTokens([]);
-      }
+  useEffect(() => {
+    setPermitAvailable(false);
+    setAllowance(null);
+    setCollectionApproved(null);
+    if (!tokenA || isNativeA) return;
+
+    let cancelled = false;
+    if (isItemA) {
+      isCollectionApproved(tokenA)
+        .then((approved) => !cancelled && setCollectionApproved(approved))
+        .catch((error) => console.error('Failed to read collection approval:', error));
+    } else {
+      supportsPermit(tokenA).then((supported) => !cancelled && setPermitAvailable(supported));
+      getAllowance(tokenA)
+        .then((current) => !cancelled && setAllowance(current))
+        .catch((error) => console.error('Failed to read allowance:', error));
+    }
+
+    return () => {
+      cancelled = true;
     };
+  }, [tokenA, isItemA, isNativeA, supportsPermit, getAllowance, isCollectionApproved]);
+
+  const selectAssetTypeA = (assetType: AssetType) => {
+    setAssetTypeA(assetType);
+    setTokenA('');
+    setTokenIdA('');
+    if (assetType === AssetType.ERC721) setPartiallyFillable(false);
+  };
 
-    loadTokens();
-  }, [address, publicClient]);
+  const selectAssetTypeB = (assetType: AssetType) => {
+    setAssetTypeB(assetType);
+    setTokenB('');
+    setTokenIdB('');
+    if (assetType === AssetType.ERC721) setPartiallyFillable(false);
+  };
 
   const handleCreateOperation = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!address) {
-      setMessage({ type: 'error', text: 'Please connect your wallet first' });
+      notify('error', 'Please connect your wallet first');
+      return;
+    }
+    if (!tokenA || !tokenB || !tokenAInfo || !tokenBInfo) return;
+
+    const escrowContract = getContract();
+    if (!escrowContract) {
+      notify('error', 'Escrow contract not available');
       return;
     }
 
     setLoading(true);
-    setMessage(null);
 
     try {
-      // Get token contract
-      const { getContract: getTokenContract } = useTokenContract(tokenA);
-      const tokenAContract = await getTokenContract();
-      if (!tokenAContract) throw new Error('Token contract not available');
-
-      const escrowContract = await getContract();
-      if (!escrowContract) throw new Error('Escrow contract not available');
-
-      // Convert amounts to Wei
-      const amountAWei = ethers.parseEther(amountA);
-      const amountBWei = ethers.parseEther(amountB);
-
-      // Step 1: Approve Token A
-      const approveTx = await tokenAContract.approve(ESCROW_ADDRESS, amountAWei);
-      await approveTx.wait();
-
-      // Step 2: Create operation
-      const createTx = await escrowContract.createOperation(tokenA, tokenB, amountAWei, amountBWei);
-      await createTx.wait();
-
-      setMessage({ type: 'success', text: 'Operation created successfully!' });
-      setTokenA('');
-      setTokenB('');
-      setAmountA('');
-      setAmountB('');
-
-      // Reload page after success
-      setTimeout(() => window.location.reload(), 2000);
-    } catch (error: any) {
+      // Convert amounts to base units using each token's decimals
+      const amountAWei = parseTokenAmount(amountA, tokenAInfo.decimals);
+      const amountBWei = parseTokenAmount(amountB, tokenBInfo.decimals);
+      const createLabel = `Create ${tokenAInfo.symbol} → ${tokenBInfo.symbol} operation`;
+      const createArgs = [tokenA, tokenB, amountAWei, amountBWei, resolveOptions()] as const;
+      const value = isNativeA ? amountAWei : undefined;
+
+      // Simulate right before the wallet prompt so a revert never costs gas
+      const create = async () => {
+        await escrowContract.simulate.createOperation(createArgs, { account: address, value });
+        return escrowContract.write.createOperation(createArgs, { value });
+      };
+
+      const track = async (hash: Hash, confirmation: Promise<TransactionReceipt>) => {
+        const receipt = await trackPending(
+          {
+            kind: 'create',
+            hash,
+            creator: address,
+            tokenA,
+            tokenB,
+            amountA: amountAWei,
+            amountB: amountBWei,
+            tokenIdA: createArgs[4].tokenIdA,
+            tokenIdB: createArgs[4].tokenIdB,
+          },
+          confirmation
+        );
+
+        // Fee-on-transfer tokens arrive short, and the operation only offers what the escrow received
+        const [created] = decodeEscrowEvents(receipt.logs, 'OperationCreated');
+        if (created && created.args.amountA < amountAWei) {
+          const escrowed = formatTokenAmount(created.args.amountA, tokenAInfo.decimals);
+          notify(
+            'info',
+            `${tokenAInfo.symbol} charges a transfer fee: the escrow received ${escrowed} ${tokenAInfo.symbol}, ` +
+              'and your operation offers that amount'
+          );
+        }
+      };
+
+      // Only ask for an approval when the current allowance does not cover amountA.
+      // Collections have no permit and are approved as a whole.
+      const steps: FlowStepDefinition[] = [];
+      if (isItemA) {
+        if (!(await isCollectionApproved(tokenA))) {
+          steps.push({ label: `Approve ${tokenAInfo.symbol} collection`, run: () => approveCollection(tokenA) });
+        }
+        steps.push({ label: createLabel, run: create, track });
+      } else if (isNativeA || (await getAllowance(tokenA)) >= amountAWei) {
+        steps.push({
+          label: createLabel,
+          run: create,
+          track,
+        });
+      } else if (approvalMode === 'permit' && (await supportsPermit(tokenA))) {
+        let permit: PermitSignature;
+        steps.push(
+          {
+            label: `Sign ${tokenAInfo.symbol} permit`,
+            kind: 'signature',
+            run: async () => {
+              permit = await signPermit(tokenA, amountAWei);
+            },
+          },
+          {
+            label: createLabel,
+            run: async () => {
+              const args = [...createArgs, permit.deadline, permit.v, permit.r, permit.s] as const;
+              await escrowContract.simulate.createOperationWithPermit(args, { account: address });
+              return escrowContract.write.createOperationWithPermit(args);
+            },
+            track,
+          }
+        );
+      } else {
+        steps.push(
+          {
+            label: `Approve ${tokenAInfo.symbol}${approvalMode === 'unlimited' ? ' (unlimited)' : ''}`,
+            run: () => approve(tokenA, amountAWei, approvalMode === 'unlimited' ? 'unlimited' : 'exact'),
+          },
+          {
+            label: createLabel,
+            run: create,
+            track,
+          }
+        );
+      }
+
+      const { id, result } = runFlow('Create operation', steps);
+      setFlowId(id);
+
+      if (await result) {
+        if (isItemA) {
+          setCollectionApproved(await isCollectionApproved(tokenA));
+        } else if (!isNativeA) {
+          setAllowance(await getAllowance(tokenA));
+        }
+        setTokenA('');
+        setTokenB('');
+        setAmountA('');
+        setAmountB('');
+        setTokenIdA('');
+        setTokenIdB('');
+        setDeadlineChoice(0);
+        setCustomDeadline('');
+        setPartiallyFillable(false);
+        setMinFill('');
+        setCounterparty('');
+      }
+    } catch (error) {
       console.error('Failed to create operation:', error);
-      setMessage({
-        type: 'error',
-        text: error.message || 'Failed to create operation'
-      });
+      notify('error', errorMessage(error, 'Failed to create operation'));
     } finally {
       setLoading(false);
     }
@@ -123,49 +321,68 @@ export default function CreateOperation() {
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Token A (You offer)
             </label>
+            <AssetTypeSelect value={assetTypeA} onChange={selectAssetTypeA} />
             <select
               value={tokenA}
-              onChange={(e) => setTokenA(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              onChange={(e) => {
+                setTokenA(e.target.value as Address);
+                setTokenIdA('');
+              }}
+              className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               required
             >
-              <option value="">Select token...</option>
-              {allowedTokens.map((token) => (
-                <option key={token.address} value={token.address}>
-                  {token.symbol}
-                </option>
-              ))}
+              <option value="">{isItemA ? 'Select collection...' : 'Select token...'}</option>
+              {allowedTokens
+                .filter((token) => token.assetType === assetTypeA)
+                .map((token) => (
+                  <option key={token.address} value={token.address}>
+                    {token.symbol}
+                  </option>
+                ))}
             </select>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Amount A
-            </label>
-            <input
-              type="number"
-              step="0.000000000000000001"
-              value={amountA}
-              onChange={(e) => setAmountA(e.target.value)}
-              placeholder="0.0"
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              required
-            />
-          </div>
+          {isItemA && tokenAInfo && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Item
+              </label>
+              <ItemPicker collection={tokenAInfo} value={tokenIdA} onChange={setTokenIdA} />
+            </div>
+          )}
+
+          {assetTypeA !== AssetType.ERC721 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Amount A
+              </label>
+              <input
+                type="number"
+                step={inputStep(tokenAInfo?.decimals ?? 18)}
+                value={amountAInput}
+                onChange={(e) => setAmountA(e.target.value)}
+                placeholder={isItemA ? '1' : '0.0'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              {amountAError && <p className="text-xs text-red-600 mt-1">{amountAError}</p>}
+            </div>
+          )}
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Token B (You request)
             </label>
+            <AssetTypeSelect value={assetTypeB} onChange={selectAssetTypeB} />
             <select
               value={tokenB}
-              onChange={(e) => setTokenB(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              onChange={(e) => setTokenB(e.target.value as Address)}
+              className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               required
             >
-              <option value="">Select token...</option>
+              <option value="">{isItemB ? 'Select collection...' : 'Select token...'}</option>
               {allowedTokens
-                .filter((token) => token.address !== tokenA)
+                .filter((token) => token.assetType === assetTypeB && token.address !== tokenA)
                 .map((token) => (
                   <option key={token.address} value={token.address}>
                     {token.symbol}
@@ -174,52 +391,175 @@ export default function CreateOperation() {
             </select>
           </div>
 
+          {isItemB && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Token ID
+              </label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={tokenIdB}
+                onChange={(e) => setTokenIdB(e.target.value.trim())}
+                placeholder="Id of the item you want"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              {tokenIdBError && <p className="text-xs text-red-600 mt-1">{tokenIdBError}</p>}
+            </div>
+          )}
+
+          {assetTypeB !== AssetType.ERC721 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Amount B
+              </label>
+              <input
+                type="number"
+                step={inputStep(tokenBInfo?.decimals ?? 18)}
+                value={amountBInput}
+                onChange={(e) => setAmountB(e.target.value)}
+                placeholder={isItemB ? '1' : '0.0'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              {amountBError && <p className="text-xs text-red-600 mt-1">{amountBError}</p>}
+            </div>
+          )}
+
+          {tokenAInfo && tokenBInfo && !isItemA && !isItemB && (
+            <RatePreview
+              tokenA={tokenAInfo}
+              tokenB={tokenBInfo}
+              amountA={parsedAmountA}
+              amountB={parsedAmountB}
+              onMatch={(matched) => setAmountB(formatTokenAmount(matched, tokenBInfo.decimals))}
+            />
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Amount B
+              Expires
             </label>
-            <input
-              type="number"
-              step="0.000000000000000001"
-              value={amountB}
-              onChange={(e) => setAmountB(e.target.value)}
-              placeholder="0.0"
+            <select
+              value={deadlineChoice}
+              onChange={(e) => setDeadlineChoice(e.target.value === 'custom' ? 'custom' : Number(e.target.value))}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              required
+            >
+              {DEADLINE_PRESETS.map((preset, index) => (
+                <option key={preset.label} value={index}>
+                  {preset.label}
+                </option>
+              ))}
+              <option value="custom">Pick a date...</option>
+            </select>
+            {deadlineChoice === 'custom' && (
+              <input
+                type="datetime-local"
+                value={customDeadline}
+                onChange={(e) => setCustomDeadline(e.target.value)}
+                className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              After the deadline nobody can complete the operation and anyone can return your tokens
+            </p>
+          </div>
+
+          {canFillPartially && (
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={partiallyFillable}
+                  onChange={(e) => setPartiallyFillable(e.target.checked)}
+                />
+                Allow partial fills
+              </label>
+              {partiallyFillable && (
+                <>
+                  <input
+                    type="number"
+                    step={inputStep(tokenBInfo?.decimals ?? 18)}
+                    value={minFill}
+                    onChange={(e) => setMinFill(e.target.value)}
+                    placeholder={`Minimum fill${tokenBInfo ? ` in ${tokenBInfo.symbol}` : ''} (optional)`}
+                    className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  {minFillError && <p className="text-xs text-red-600 mt-1">{minFillError}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Completers can take any part of the offer at your rate; the last fill may be below the minimum
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Restrict to address (optional)
+            </label>
+            <input
+              type="text"
+              value={counterparty}
+              onChange={(e) => setCounterparty(e.target.value.trim())}
+              placeholder="0x... (anyone can complete when empty)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
+            {counterpartyError && <p className="text-xs text-red-600 mt-1">{counterpartyError}</p>}
+            <p className="text-xs text-gray-500 mt-1">
+              Only this address can complete the operation. The terms are still public on-chain.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Approval
+            </label>
+            {isItemA ? (
+              <p className={`text-sm ${collectionApproved ? 'text-green-700' : 'text-gray-600'}`}>
+                {collectionApproved
+                  ? 'The escrow is already approved for this collection'
+                  : 'You will first approve the escrow for this collection (covers all your items in it)'}
+              </p>
+            ) : isNativeA ? (
+              <p className="text-sm text-green-700">
+                Your ETH is sent with the transaction and wrapped by the escrow, no approval needed
+              </p>
+            ) : allowanceCovers ? (
+              <p className="text-sm text-green-700">
+                Your current allowance covers this amount, no approval needed
+              </p>
+            ) : (
+              <ApprovalModeSelect
+                value={approvalMode}
+                onChange={setApprovalMode}
+                permitAvailable={permitAvailable}
+              />
+            )}
           </div>
 
           <button
             type="submit"
-            disabled={loading || !tokenA || !tokenB || !amountA || !amountB}
+            disabled={loading || isBlocked}
             className={`w-full py-2 rounded-lg transition ${
-              loading || !tokenA || !tokenB || !amountA || !amountB
+              loading || isBlocked
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-green-500 hover:bg-green-600 text-white'
             }`}
           >
-            {loading ? 'Creating Operation...' : 'Create Operation'}
+            {loading ? 'Creating Operation...' : isChecking ? 'Checking...' : 'Create Operation'}
           </button>
+          {blockedReason && <p className="text-xs text-red-600 text-center">{blockedReason}</p>}
 
-          {loading && (
-            <p className="text-sm text-gray-600 text-center">
-              Please confirm both transactions in MetaMask
-            </p>
+          {flow && (
+            <div className="p-3 bg-gray-50 rounded border border-gray-200">
+              <FlowSteps steps={flow.steps} />
+            </div>
           )}
         </form>
       )}
-
-      {message && (
-        <div
-          className={`mt-4 p-3 rounded ${
-            message.type === 'success'
-              ? 'bg-green-100 text-green-800 border border-green-300'
-              : 'bg-red-100 text-red-800 border border-red-300'
-          }`}
-        >
-          {message.text}
-        </div>
-      )}
     </div>
   );
 }
@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { formatTokenAmount } from '../lib/amounts';
+import { AssetType, OperationStatus } from '../lib/escrow';
+import { countByStatus, owedByToken } from '../lib/escrowStats';
+import { useOperations } from '../lib/operations';
+import { useTokens } from '../lib/tokens';
+import { useEscrowContract } from '../hooks/useEscrowContract';
+import { useTokenContract } from '../hooks/useTokenContract';
+
+const STATUS_TILES = [
+  { status: OperationStatus.Active, label: 'Active' },
+  { status: OperationStatus.Completed, label: 'Completed' },
+  { status: OperationStatus.Cancelled, label: 'Cancelled' },
+  { status: OperationStatus.Expired, label: 'Reclaimed' },
+];
+
+/**
+ * Contract-wide totals: operations per status and, for every allowed or delisted ERC20 token, what
+ * the escrow holds next to what it owes to active operations
+ */
+export default function EscrowStats() {
+  const { escrowAddress } = useEscrowContract();
+  const { operations, lastSyncedBlock } = useOperations();
+  const { tokens: allowedTokens, delistedTokens } = useTokens();
+  const { getReadContract: getTokenReadContract } = useTokenContract();
+  const [held, setHeld] = useState<Map<string, bigint>>(new Map());
+
+  const counts = useMemo(() => countByStatus(operations), [operations]);
+  const owed = useMemo(() => owedByToken(operations), [operations]);
+  const tokens = useMemo(
+    () => [...allowedTokens, ...delistedTokens].filter((token) => token.assetType === AssetType.ERC20),
+    [allowedTokens, delistedTokens]
+  );
+
+  useEffect(() => {
+    if (!escrowAddress) return;
+
+    let cancelled = false;
+    Promise.all(
+      tokens.map(async (token) => {
+        const contract = getTokenReadContract(token.address);
+        const balance = contract ? await contract.read.balanceOf([escrowAddress]) : 0n;
+        return [token.address.toLowerCase(), balance] as const;
+      })
+    )
+      .then((balances) => !cancelled && setHeld(new Map(balances)))
+      .catch((error) => console.error('Failed to load escrow balances:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [escrowAddress, tokens, getTokenReadContract, lastSyncedBlock]);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-bold mb-4">Escrow Stats</h2>
+
+      <div className="grid grid-cols-2 gap-3 mb-6">
+        {STATUS_TILES.map(({ status, label }) => (
+          <div key={status} className="bg-gray-50 p-3 rounded">
+            <p className="text-xs text-gray-600">{label}</p>
+            <p className="text-lg font-semibold">{counts[status]}</p>
+          </div>
+        ))}
+      </div>
+
+      <h3 className="font-semibold mb-2">Balances</h3>
+      {tokens.length === 0 ? (
+        <p className="text-sm text-gray-500">No tokens allowed yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th className="font-normal py-1">Token</th>
+              <th className="font-normal py-1 text-right">Held</th>
+              <th className="font-normal py-1 text-right">Owed to active</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map((token) => {
+              const key = token.address.toLowerCase();
+              const balance = held.get(key);
+              const owedAmount = owed.get(key) ?? 0n;
+              return (
+                <tr key={token.address}>
+                  <td className="py-1">{token.symbol}</td>
+                  <td
+                    className={`py-1 text-right ${balance !== undefined && balance < owedAmount ? 'text-red-600' : ''}`}
+                  >
+                    {balance === undefined ? '...' : formatTokenAmount(balance, token.decimals, 6)}
+                  </td>
+                  <td className="py-1 text-right">{formatTokenAmount(owedAmount, token.decimals, 6)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
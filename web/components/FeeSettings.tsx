@@ -0,0 +1,170 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { isAddress, parseUnits } from 'viem';
+import type { Address, Hash } from 'viem';
+import { useAccount } from 'wagmi';
+import { formatBps } from '../lib/escrow';
+import { useOperations } from '../lib/operations';
+import { useTransactions } from '../lib/transactions';
+import { useEscrowContract } from '../hooks/useEscrowContract';
+import { usePreflight, usePreflightReason } from '../hooks/usePreflight';
+
+// Percentage with up to two decimals, i.e. whole basis points; zero turns the fee off
+function parseFeePercent(value: string): bigint | null {
+  return /^\d+(\.\d{1,2})?$/.test(value.trim()) ? parseUnits(value.trim(), 2) : null;
+}
+
+/**
+ * Current protocol fee and recipient, with owner controls to change them
+ */
+export default function FeeSettings() {
+  const { address } = useAccount();
+  const { getContract, getReadContract } = useEscrowContract();
+  const { feeBps, feeRecipient, refresh } = useOperations();
+  const { runFlow, notify } = useTransactions();
+  const { checkSetFee, checkSetFeeRecipient } = usePreflight();
+  const [maxFeeBps, setMaxFeeBps] = useState<bigint | null>(null);
+  const [feeInput, setFeeInput] = useState('');
+  const [recipientInput, setRecipientInput] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const escrow = getReadContract();
+    if (!escrow) return;
+
+    let cancelled = false;
+    escrow.read
+      .MAX_FEE_BPS()
+      .then((max) => !cancelled && setMaxFeeBps(max))
+      .catch((error) => console.error('Failed to read the fee cap:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getReadContract]);
+
+  const newFeeBps = parseFeePercent(feeInput) ?? undefined;
+  const feeError = feeInput && newFeeBps === undefined ? 'Enter a percentage with at most two decimals' : null;
+  const recipientError = recipientInput && !isAddress(recipientInput) ? 'Enter a valid address' : null;
+  const newRecipient = recipientInput && !recipientError ? (recipientInput as Address) : undefined;
+
+  // Without a value these still check ownership
+  const feeCheck = useCallback(() => checkSetFee(newFeeBps), [newFeeBps, checkSetFee]);
+  const recipientCheck = useCallback(() => checkSetFeeRecipient(newRecipient), [newRecipient, checkSetFeeRecipient]);
+  const { reason: feeReason, isChecking: isCheckingFee } = usePreflightReason(feeCheck);
+  const { reason: recipientReason, isChecking: isCheckingRecipient } = usePreflightReason(recipientCheck);
+
+  const runOwnerCall = async (title: string, label: string, send: () => Promise<Hash>) => {
+    setLoading(true);
+
+    const { result } = runFlow(title, [
+      {
+        label,
+        run: send,
+        // Pick up the fee event right away
+        track: async (_hash, confirmation) => {
+          await confirmation;
+          await refresh();
+        },
+      },
+    ]);
+
+    const succeeded = await result;
+    setLoading(false);
+    return succeeded;
+  };
+
+  const handleSetFee = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const contract = getContract();
+    if (!address || !contract || newFeeBps === undefined) {
+      notify('error', 'Please connect your wallet first');
+      return;
+    }
+
+    const succeeded = await runOwnerCall('Change fee', `Set fee to ${formatBps(newFeeBps)}`, async () => {
+      await contract.simulate.setFee([newFeeBps], { account: address });
+      return contract.write.setFee([newFeeBps]);
+    });
+    if (succeeded) setFeeInput('');
+  };
+
+  const handleSetRecipient = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const contract = getContract();
+    if (!address || !contract || !newRecipient) {
+      notify('error', 'Please connect your wallet first');
+      return;
+    }
+
+    const label = `Send fees to ${newRecipient.substring(0, 6)}...${newRecipient.substring(newRecipient.length - 4)}`;
+    const succeeded = await runOwnerCall('Change fee recipient', label, async () => {
+      await contract.simulate.setFeeRecipient([newRecipient], { account: address });
+      return contract.write.setFeeRecipient([newRecipient]);
+    });
+    if (succeeded) setRecipientInput('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-bold mb-4">Protocol Fee</h2>
+
+      <div className="mb-4 p-3 bg-blue-50 rounded border border-blue-200 text-sm text-blue-800 space-y-1">
+        <p>
+          <strong>Fee:</strong> {formatBps(feeBps)} of each tokenA payout
+          {maxFeeBps !== null && ` (capped at ${formatBps(maxFeeBps)})`}
+        </p>
+        <p className="break-all">
+          <strong>Recipient:</strong> <span className="font-mono text-xs">{feeRecipient ?? '...'}</span>
+        </p>
+      </div>
+
+      <form onSubmit={handleSetFee} className="space-y-2 mb-4">
+        <label className="block text-sm font-medium text-gray-700">New fee (%)</label>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={feeInput}
+            onChange={(e) => setFeeInput(e.target.value)}
+            placeholder="0.25"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={loading || newFeeBps === undefined || isCheckingFee || !!feeReason}
+            className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+          >
+            Set
+          </button>
+        </div>
+        {(feeError || feeReason) && <p className="text-xs text-red-600">{feeError ?? feeReason}</p>}
+      </form>
+
+      <form onSubmit={handleSetRecipient} className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">New fee recipient</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={recipientInput}
+            onChange={(e) => setRecipientInput(e.target.value.trim())}
+            placeholder="0x..."
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={loading || !newRecipient || isCheckingRecipient || !!recipientReason}
+            className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+          >
+            Set
+          </button>
+        </div>
+        {(recipientError || recipientReason) && (
+          <p className="text-xs text-red-600">{recipientError ?? recipientReason}</p>
+        )}
+      </form>
+    </div>
+  );
+}
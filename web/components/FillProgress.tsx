@@ -0,0 +1,34 @@
+'use client';
+
+import type { Operation } from '../lib/escrow';
+import { formatTokenAmount } from '../lib/amounts';
+import { useTokens } from '../lib/tokens';
+
+/**
+ * How much of a partially fillable operation has been taken so far
+ */
+export default function FillProgress({ op }: { op: Operation }) {
+  const { getToken } = useTokens();
+  const token = getToken(op.tokenB);
+  const percent = Number((op.filledB * 10_000n) / op.amountB) / 100;
+  const format = (amount: bigint) => (token ? formatTokenAmount(amount, token.decimals) : '...');
+
+  return (
+    <div className="mb-3">
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>
+          Filled {format(op.filledB)} / {format(op.amountB)} {token?.symbol}
+        </span>
+        <span>{percent}%</span>
+      </div>
+      <div className="h-2 bg-gray-200 rounded">
+        <div className="h-2 bg-green-500 rounded" style={{ width: `${percent}%` }} />
+      </div>
+      {op.minFill > 0n && (
+        <p className="text-xs text-gray-500 mt-1">
+          Minimum fill: {format(op.minFill)} {token?.symbol} (except the last)
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import type { StepStatus, TransactionStep } from '../lib/transactions';
+
+const stepLabels: Record<StepStatus, { label: string; color: string }> = {
+  waiting: { label: 'Waiting', color: 'text-gray-500' },
+  'awaiting-signature': { label: 'Awaiting signature', color: 'text-yellow-700' },
+  pending: { label: 'Pending', color: 'text-blue-700' },
+  confirmed: { label: 'Confirmed', color: 'text-green-700' },
+  failed: { label: 'Failed', color: 'text-red-700' },
+};
+
+const formatHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+
+export default function FlowSteps({ steps }: { steps: TransactionStep[] }) {
+  return (
+    <ol className="space-y-1">
+      {steps.map((step, index) => (
+        <li key={index} className="text-xs">
+          <div className="flex justify-between">
+            <span className="text-gray-700">
+              {index + 1}. {step.label}
+            </span>
+            <span className={stepLabels[step.status].color}>{stepLabels[step.status].label}</span>
+          </div>
+          {(step.hash || step.gasUsed) && (
+            <div className="flex justify-between text-gray-500 font-mono">
+              <span>{step.hash && formatHash(step.hash)}</span>
+              <span>{step.gasUsed && `${Number(step.gasUsed).toLocaleString()} gas`}</span>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { AssetType } from '../lib/escrow';
+import type { TokenMetadata } from '../lib/tokens';
+import { useItemHoldings } from '../hooks/useItemHoldings';
+
+interface ItemPickerProps {
+  collection: TokenMetadata;
+  /** Selected token id as a decimal string, '' when none is picked */
+  value: string;
+  onChange: (tokenId: string) => void;
+}
+
+/**
+ * Choose one of the connected account's items in an ERC721 or ERC1155 collection
+ */
+export default function ItemPicker({ collection, value, onChange }: ItemPickerProps) {
+  const { holdings, isLoading, error } = useItemHoldings(collection);
+
+  if (error) return <p className="text-xs text-red-600">{error}</p>;
+  if (isLoading && holdings.length === 0) return <p className="text-sm text-gray-500">Loading your items...</p>;
+  if (holdings.length === 0) return <p className="text-sm text-gray-500">You hold no {collection.symbol} items</p>;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {holdings.map(({ tokenId, balance }) => {
+        const selected = value === tokenId.toString();
+        return (
+          <button
+            key={tokenId.toString()}
+            type="button"
+            onClick={() => onChange(selected ? '' : tokenId.toString())}
+            className={`px-3 py-1 text-sm rounded border transition ${
+              selected ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            #{tokenId.toString()}
+            {collection.assetType === AssetType.ERC1155 && (
+              <span className={selected ? 'text-blue-100' : 'text-gray-500'}> ({balance.toString()} held)</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
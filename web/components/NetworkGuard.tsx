@@ -0,0 +1,52 @@
+'use client';
+
+import { useAccount, useSwitchChain } from 'wagmi';
+import { DEPLOYMENTS, isAbiCurrent } from '../lib/deployments';
+import { errorMessage } from '../lib/errors';
+import { useDeployment } from '../hooks/useDeployment';
+
+/**
+ * Renders its children only when the wallet is on a chain with an Escrow deployment,
+ * otherwise offers to switch to one of the chains in the registry
+ */
+export default function NetworkGuard({ children }: { children: React.ReactNode }) {
+  const { chainId } = useAccount();
+  const deployment = useDeployment();
+  const { switchChain, isPending, error } = useSwitchChain();
+
+  if (!deployment) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-12 text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Unsupported network</h2>
+        <p className="text-gray-600 mb-6">
+          There is no Escrow deployment on chain {chainId ?? 'unknown'}. Switch to one of these networks:
+        </p>
+        <div className="flex flex-wrap justify-center gap-3">
+          {DEPLOYMENTS.map((target) => (
+            <button
+              key={target.chainId}
+              onClick={() => switchChain({ chainId: target.chainId })}
+              disabled={isPending}
+              className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+            >
+              {target.name} ({target.chainId})
+            </button>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-600 mt-4">{errorMessage(error, 'Failed to switch network')}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {!isAbiCurrent(deployment) && (
+        <div className="mb-6 p-3 rounded bg-yellow-100 text-yellow-800 border border-yellow-300 text-sm">
+          The Escrow on {deployment.name} was deployed from a different contract version than this build.
+          Redeploy with ./deploy.sh if calls fail.
+        </div>
+      )}
+      {children}
+    </>
+  );
+}
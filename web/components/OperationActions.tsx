@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import {
+  canFillAs,
+  chargesFee,
+  fillAmountError,
+  formatBps,
+  isExpired,
+  netFillAmountA,
+  Operation,
+  OperationStatus,
+  remainingB,
+} from '../lib/escrow';
+import { formatTokenAmount, inputStep, parseTokenAmount, validateTokenAmount } from '../lib/amounts';
+import { formatLeg } from '../lib/assets';
+import { errorMessage } from '../lib/errors';
+import { useOperations } from '../lib/operations';
+import { useTokens } from '../lib/tokens';
+import { useTransactions } from '../lib/transactions';
+import type { ApprovalMode } from '../hooks/useTokenApproval';
+import { useOperationActions } from '../hooks/useOperationActions';
+import { usePreflight, usePreflightReason } from '../hooks/usePreflight';
+import FlowSteps from './FlowSteps';
+
+type OperationAction = 'complete' | 'fill' | 'cancel' | 'reclaim';
+
+const ACTION_BUTTONS: Record<OperationAction, { label: string; busyLabel: string; color: string }> = {
+  complete: { label: 'Complete Operation', busyLabel: 'Completing...', color: 'bg-green-500 hover:bg-green-600' },
+  fill: { label: 'Fill Operation', busyLabel: 'Filling...', color: 'bg-green-500 hover:bg-green-600' },
+  cancel: { label: 'Cancel Operation', busyLabel: 'Cancelling...', color: 'bg-red-500 hover:bg-red-600' },
+  reclaim: { label: 'Return Tokens to Creator', busyLabel: 'Reclaiming...', color: 'bg-orange-500 hover:bg-orange-600' },
+};
+
+/**
+ * Fill amount input, action button and progress of the running flow for one operation.
+ * The action offered depends on who is looking: the creator can cancel, anyone else
+ * can complete or fill, and once the deadline passes anyone can return the tokens.
+ */
+export default function OperationActions({
+  op,
+  now,
+  approvalMode,
+  isPending,
+}: {
+  op: Operation;
+  now: bigint;
+  approvalMode: ApprovalMode;
+  /** A transaction for this operation is already waiting to be indexed */
+  isPending: boolean;
+}) {
+  const { address } = useAccount();
+  const { paused } = useOperations();
+  const { completeOperation, fillOperation, cancelOperation, reclaimOperation } = useOperationActions();
+  const { flows, notify } = useTransactions();
+  const { getToken } = useTokens();
+  const [isLoading, setIsLoading] = useState(false);
+  const [flowId, setFlowId] = useState<string | null>(null);
+  // An empty fill input means the whole remainder
+  const [fillInput, setFillInput] = useState('');
+
+  const flow = flowId ? flows.find((f) => f.id === flowId) : undefined;
+  const isCreator = !!address && op.creator.toLowerCase() === address.toLowerCase();
+  const isActive = op.status === OperationStatus.Active;
+  const expired = isExpired(op, now);
+  // Private operations offer nothing to third parties until they expire
+  const reservedForOther = !isCreator && !canFillAs(op, address);
+  const canFill =
+    isActive && op.partiallyFillable && !isCreator && !reservedForOther && !expired && !isPending && !paused;
+
+  const decimalsB = getToken(op.tokenB)?.decimals;
+  const fillError = fillInput && decimalsB !== undefined ? validateTokenAmount(fillInput, decimalsB) : null;
+  const fillAmount =
+    !fillInput || decimalsB === undefined ? remainingB(op) : fillError ? null : parseTokenAmount(fillInput, decimalsB);
+
+  const action: OperationAction = expired
+    ? 'reclaim'
+    : isCreator
+      ? 'cancel'
+      : fillAmount !== null && fillAmount < remainingB(op)
+        ? 'fill'
+        : 'complete';
+
+  const startFlow = (amountB: bigint) => {
+    switch (action) {
+      case 'complete':
+        return completeOperation(op, approvalMode);
+      case 'fill':
+        return fillOperation(op, amountB, approvalMode);
+      case 'cancel':
+        return cancelOperation(op);
+      case 'reclaim':
+        return reclaimOperation(op);
+    }
+  };
+
+  const runAction = async () => {
+    if (fillAmount === null) return;
+    setIsLoading(true);
+
+    try {
+      const { id, result } = await startFlow(fillAmount);
+      setFlowId(id);
+      if (await result) setFillInput('');
+    } catch (error) {
+      console.error('Failed to start operation flow:', error);
+      notify('error', errorMessage(error, 'Failed to start transaction'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      {canFill && (
+        <FillAmountInput
+          op={op}
+          value={fillInput}
+          amountB={fillAmount}
+          inputError={fillError}
+          onChange={setFillInput}
+        />
+      )}
+
+      {isActive && !isPending && !(reservedForOther && !expired) && (
+        <OperationActionButton
+          op={op}
+          action={action}
+          amountB={fillAmount}
+          isLoading={isLoading}
+          onClick={runAction}
+        />
+      )}
+
+      {flow && (
+        <div className="mt-3 p-2 bg-gray-50 rounded">
+          <FlowSteps steps={flow.steps} />
+        </div>
+      )}
+    </>
+  );
+}
+
+// Action button, disabled with the preflight reason when the call would fail
+function OperationActionButton({
+  op,
+  action,
+  amountB,
+  isLoading,
+  onClick,
+}: {
+  op: Operation;
+  action: OperationAction;
+  /** tokenB to supply when filling, null while the fill input is invalid */
+  amountB: bigint | null;
+  isLoading: boolean;
+  onClick: () => void;
+}) {
+  const { paused } = useOperations();
+  const { checkComplete, checkFill, checkCancel, checkReclaim } = usePreflight();
+  const check = useCallback(() => {
+    switch (action) {
+      case 'complete':
+        return checkComplete(op);
+      case 'fill':
+        return amountB === null ? Promise.resolve('Enter a valid fill amount') : checkFill(op, amountB);
+      case 'cancel':
+        return checkCancel(op);
+      case 'reclaim':
+        return checkReclaim(op);
+    }
+  }, [op, action, amountB, checkComplete, checkFill, checkCancel, checkReclaim]);
+  // Pausing only stops completing and filling; cancelling and reclaiming stay open
+  const pausedReason =
+    paused && (action === 'complete' || action === 'fill')
+      ? 'The escrow is paused, so operations cannot be filled'
+      : null;
+  const { reason: preflightReason, isChecking } = usePreflightReason(isLoading || pausedReason ? null : check);
+  const reason = pausedReason ?? preflightReason;
+  const disabled = isLoading || isChecking || !!reason;
+  const button = ACTION_BUTTONS[action];
+
+  return (
+    <div>
+      <button
+        onClick={onClick}
+        disabled={disabled}
+        className={`w-full py-2 rounded transition ${
+          disabled ? 'bg-gray-400 cursor-not-allowed' : `${button.color} text-white`
+        }`}
+      >
+        {isLoading ? button.busyLabel : button.label}
+      </button>
+      {reason && <p className="text-xs text-red-600 text-center mt-1">{reason}</p>}
+    </div>
+  );
+}
+
+// Fill amount input with the exact payout the contract would make for it
+function FillAmountInput({
+  op,
+  value,
+  amountB,
+  inputError,
+  onChange,
+}: {
+  op: Operation;
+  value: string;
+  amountB: bigint | null;
+  inputError: string | null;
+  onChange: (value: string) => void;
+}) {
+  const { getToken } = useTokens();
+  const { feeBps } = useOperations();
+  const tokenA = getToken(op.tokenA);
+  const tokenB = getToken(op.tokenB);
+  if (!tokenA || !tokenB) return null;
+
+  const error = inputError ?? (amountB !== null ? fillAmountError(op, amountB) : null);
+
+  return (
+    <div className="mb-3">
+      <label className="block text-xs text-gray-600 mb-1">Fill amount ({tokenB.symbol})</label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          step={inputStep(tokenB.decimals)}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={formatTokenAmount(remainingB(op), tokenB.decimals)}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          className="px-2 py-1 text-xs rounded bg-gray-200 hover:bg-gray-300 transition"
+        >
+          Max
+        </button>
+      </div>
+      {error ? (
+        <p className="text-xs text-red-600 mt-1">{error}</p>
+      ) : (
+        amountB !== null && (
+          <p className="text-xs text-gray-600 mt-1">
+            You pay {formatLeg(tokenB, amountB, op.tokenIdB)} and receive{' '}
+            {formatLeg(tokenA, netFillAmountA(op, amountB, feeBps), op.tokenIdA)}
+            {feeBps > 0n && chargesFee(op) && ` after the ${formatBps(feeBps)} fee`}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { zeroAddress } from 'viem';
+import type { Address } from 'viem';
+import { formatRate } from '../lib/amounts';
+import { ASSET_TYPE_LABELS, formatLeg, isCollection } from '../lib/assets';
+import { formatDeadline } from '../lib/deadlines';
+import { hasItemLeg, isPrivate, Operation, OperationStatus } from '../lib/escrow';
+import { impliedRate } from '../lib/operationFilters';
+import { PendingChange, useOperations } from '../lib/operations';
+import { useTokens } from '../lib/tokens';
+import type { ApprovalMode } from '../hooks/useTokenApproval';
+import { useNow } from '../hooks/useNow';
+import { useOperation } from '../hooks/useOperation';
+import { TimelineEntry, useOperationTimeline } from '../hooks/useOperationTimeline';
+import ApprovalModeSelect from './ApprovalModeSelect';
+import CopyLinkButton from './CopyLinkButton';
+import FillProgress from './FillProgress';
+import OperationActions from './OperationActions';
+import StatusBadge from './StatusBadge';
+
+/**
+ * Everything known about one operation: its terms read from the contract,
+ * the actions available to the connected account and its on-chain history
+ */
+export default function OperationDetail({ operationId }: { operationId: bigint }) {
+  const now = useNow();
+  const { pending } = useOperations();
+  const { operation: op, error, isLoading } = useOperation(operationId);
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('permit');
+
+  if (!op) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold mb-4">Operation #{operationId.toString()}</h2>
+        <p className={error ? 'text-red-600' : 'text-gray-500'}>
+          {error ?? (isLoading ? 'Loading...' : 'Operation not available')}
+        </p>
+      </div>
+    );
+  }
+
+  const pendingChange = pending.find(
+    (change): change is Exclude<PendingChange, { kind: 'create' }> =>
+      change.kind !== 'create' && change.operationId === op.id
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="text-xl font-bold">Operation #{op.id.toString()}</h2>
+          <div className="flex items-center gap-2">
+            <CopyLinkButton operationId={op.id} />
+            <StatusBadge op={op} now={now} pendingKind={pendingChange?.kind} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <TokenLeg label="Offering (escrowed)" tokenAddress={op.tokenA} amount={op.amountA} tokenId={op.tokenIdA} />
+          <TokenLeg label="Requesting" tokenAddress={op.tokenB} amount={op.amountB} tokenId={op.tokenIdB} />
+        </div>
+
+        <ImpliedRate op={op} />
+
+        <dl className="grid grid-cols-1 md:grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm mb-4">
+          <AddressRow label="Creator" address={op.creator} />
+          <AddressRow label="Counterparty" address={isPrivate(op) ? op.counterparty : null} fallback="Anyone" />
+          {op.status === OperationStatus.Completed && <AddressRow label="Completed by" address={op.completer} />}
+          <dt className="text-gray-600">Deadline</dt>
+          <dd>{op.deadline === 0n ? 'Never expires' : formatDeadline(op.deadline)}</dd>
+          <dt className="text-gray-600">Partial fills</dt>
+          <dd>{op.partiallyFillable ? 'Allowed' : 'Not allowed'}</dd>
+        </dl>
+
+        {op.partiallyFillable && <FillProgress op={op} />}
+
+        {op.status === OperationStatus.Active && (
+          <div className="border-t border-gray-200 pt-4">
+            <div className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+              <span className="whitespace-nowrap">Approval when completing:</span>
+              <ApprovalModeSelect
+                value={approvalMode}
+                onChange={setApprovalMode}
+                className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+              />
+            </div>
+            <OperationActions op={op} now={now} approvalMode={approvalMode} isPending={!!pendingChange} />
+          </div>
+        )}
+      </div>
+
+      <OperationTimeline operationId={op.id} />
+    </div>
+  );
+}
+
+// Token or item of one side of the swap with its full metadata
+function TokenLeg({
+  label,
+  tokenAddress,
+  amount,
+  tokenId,
+}: {
+  label: string;
+  tokenAddress: Address;
+  amount: bigint;
+  tokenId: bigint;
+}) {
+  const { getToken } = useTokens();
+  const token = getToken(tokenAddress);
+
+  return (
+    <div className="bg-gray-50 p-3 rounded">
+      <p className="text-xs text-gray-600 mb-1">{label}</p>
+      <p className="font-medium">{token ? formatLeg(token, amount, tokenId) : '...'}</p>
+      {token && (
+        <p className="text-xs text-gray-500 mt-1">
+          {token.name} ·{' '}
+          {isCollection(token.assetType) ? ASSET_TYPE_LABELS[token.assetType] : `${token.decimals} decimals`}
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mt-1 font-mono break-all">{tokenAddress}</p>
+    </div>
+  );
+}
+
+// Price of each token in terms of the other
+function ImpliedRate({ op }: { op: Operation }) {
+  const { getToken } = useTokens();
+  const tokenA = getToken(op.tokenA);
+  const tokenB = getToken(op.tokenB);
+  if (!tokenA || !tokenB || hasItemLeg(op)) return null;
+
+  const rate = impliedRate(op, (token) => (token === op.tokenA ? tokenA.decimals : tokenB.decimals));
+
+  return (
+    <div className="mb-4 text-sm text-gray-700">
+      <p>
+        1 {tokenA.symbol} = {formatRate(rate)} {tokenB.symbol}
+      </p>
+      <p>
+        1 {tokenB.symbol} = {formatRate(1 / rate)} {tokenA.symbol}
+      </p>
+    </div>
+  );
+}
+
+function AddressRow({ label, address, fallback }: { label: string; address: Address | null; fallback?: string }) {
+  return (
+    <>
+      <dt className="text-gray-600">{label}</dt>
+      <dd className="font-mono break-all">{address && address !== zeroAddress ? address : fallback ?? '-'}</dd>
+    </>
+  );
+}
+
+const TIMELINE_LABELS: Record<TimelineEntry['eventName'], string> = {
+  OperationCreated: 'Created',
+  OperationFilled: 'Filled',
+  OperationCompleted: 'Completed',
+  OperationCancelled: 'Cancelled',
+  OperationReclaimed: 'Returned to creator',
+};
+
+// Lifecycle events with the time and transaction of each
+function OperationTimeline({ operationId }: { operationId: bigint }) {
+  const { entries, error } = useOperationTimeline(operationId);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-bold mb-4">History</h3>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <ol className="space-y-3">
+          {entries.map((entry) => (
+            <li key={`${entry.transactionHash}:${entry.logIndex}`} className="border-l-2 border-blue-300 pl-3">
+              <p className="text-sm font-medium">{TIMELINE_LABELS[entry.eventName]}</p>
+              <p className="text-xs text-gray-500">
+                {new Date(Number(entry.timestamp) * 1000).toLocaleString()} · block {entry.blockNumber.toString()}
+              </p>
+              <p className="text-xs text-gray-500 font-mono break-all">{entry.transactionHash}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
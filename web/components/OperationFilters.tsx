@@ -0,0 +1,133 @@
+'use client';
+
+import type { Address } from 'viem';
+import { OperationStatus } from '../lib/escrow';
+import {
+  DEFAULT_FILTERS,
+  OperationFilters as Filters,
+  OperationSort,
+  SortField,
+  StatusFilter,
+} from '../lib/operationFilters';
+
+interface OperationFiltersProps {
+  filters: Filters;
+  sort: OperationSort;
+  tokens: { address: Address; symbol: string }[];
+  onFiltersChange: (filters: Filters) => void;
+  onSortChange: (sort: OperationSort) => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export default function OperationFilters({
+  filters,
+  sort,
+  tokens,
+  onFiltersChange,
+  onSortChange,
+}: OperationFiltersProps) {
+  const update = (changes: Partial<Filters>) => onFiltersChange({ ...filters, ...changes });
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 rounded border border-gray-200 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={filters.status}
+          onChange={(e) =>
+            update({ status: (e.target.value === 'all' ? 'all' : Number(e.target.value)) as StatusFilter })
+          }
+          className={inputClass}
+        >
+          <option value="all">All statuses</option>
+          <option value={OperationStatus.Active}>Active</option>
+          <option value={OperationStatus.Completed}>Completed</option>
+          <option value={OperationStatus.Cancelled}>Cancelled</option>
+          <option value={OperationStatus.Expired}>Expired</option>
+        </select>
+
+        <input
+          type="text"
+          value={filters.counterparty}
+          onChange={(e) => update({ counterparty: e.target.value })}
+          placeholder="Counterparty 0x..."
+          className={inputClass}
+        />
+
+        <select
+          value={filters.tokenA}
+          onChange={(e) => update({ tokenA: e.target.value as Address | '' })}
+          className={inputClass}
+        >
+          <option value="">Any offered token</option>
+          {tokens.map((token) => (
+            <option key={token.address} value={token.address}>
+              {token.symbol}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.tokenB}
+          onChange={(e) => update({ tokenB: e.target.value as Address | '' })}
+          className={inputClass}
+        >
+          <option value="">Any requested token</option>
+          {tokens.map((token) => (
+            <option key={token.address} value={token.address}>
+              {token.symbol}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={filters.createdByMe}
+            onChange={(e) => update({ createdByMe: e.target.checked })}
+          />
+          Created by me
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={filters.completedByMe}
+            onChange={(e) => update({ completedByMe: e.target.checked })}
+          />
+          Filled by me
+        </label>
+
+        <div className="flex items-center gap-1 ml-auto">
+          <select
+            value={sort.field}
+            onChange={(e) => onSortChange({ ...sort, field: e.target.value as SortField })}
+            className="px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            <option value="id">Sort by ID</option>
+            <option value="amount">Sort by amount</option>
+            <option value="rate">Sort by rate</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+            className="px-2 py-1 text-sm bg-gray-200 hover:bg-gray-300 rounded transition"
+            title="Toggle sort direction"
+          >
+            {sort.direction === 'asc' ? '↑' : '↓'}
+          </button>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onFiltersChange(DEFAULT_FILTERS)}
+        className="text-xs text-blue-600 hover:underline"
+      >
+        Clear filters
+      </button>
+    </div>
+  );
+}
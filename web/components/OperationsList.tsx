@@ -1,126 +1,80 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ethers, BrowserProvider } from 'ethers';
-import { useEthereum } from '../lib/ethereum';
-import { ESCROW_ADDRESS, EscrowABI, ERC20ABI } from '../lib/contracts';
-import {useAccount, usePublicClient} from 'wagmi';
-import {useEscrowContract} from '../hooks/useEscrowContract';
-import {useTokenContract} from '../hooks/useTokenContract';
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import type { Address } from 'viem';
+import {
+  canFillAs,
+  chargesFee,
+  formatBps,
+  isExpired,
+  isPrivate,
+  netFillAmountA,
+  Operation,
+  OperationStatus,
+  remainingB,
+} from '../lib/escrow';
+import { formatCountdown, formatDeadline } from '../lib/deadlines';
+import { PendingChange, useOperations } from '../lib/operations';
+import { operationPath } from '../lib/routes';
+import { useTokens } from '../lib/tokens';
+import { formatLeg } from '../lib/assets';
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_SORT,
+  OperationFilters as Filters,
+  OperationSort,
+  filterOperations,
+  paginate,
+  sortOperations,
+} from '../lib/operationFilters';
+import OperationFilters from './OperationFilters';
+import {useAccount} from 'wagmi';
+import type { ApprovalMode } from '../hooks/useTokenApproval';
+import ApprovalModeSelect from './ApprovalModeSelect';
+import CopyLinkButton from './CopyLinkButton';
+import FillProgress from './FillProgress';
+import OperationActions from './OperationActions';
+import StatusBadge from './StatusBadge';
 import {useAutoRefresh} from '../hooks/useAutoRefresh';
+import { useNow } from '../hooks/useNow';
 
-interface Operation {
-  id: bigint;
-  creator: string;
-  tokenA: string;
-  tokenB: string;
-  amountA: bigint;
-  amountB: bigint;
-  status: number;
-  completer: string;
-}
+const PAGE_SIZE = 5;
 
 export default function OperationsList() {
   const { address } = useAccount();
-  const { getContract, getReadContract } = useEscrowContract();
-  const [operations, setOperations] = useState<Operation[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [actionLoading, setActionLoading] = useState<number | null>(null);
-  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
-
-  const loadOperations = async () => {
-    try {
-      const contract = await getReadContract();
-      if (!contract) return;
-
-      const ops = await contract.getAllOperations();
-      setOperations(ops || []);
-    } catch (error) {
-      console.error('Failed to load operations:', error);
-      setOperations([]);
-    }
-  };
-
-  useAutoRefresh(loadOperations);
-
-  const handleCompleteOperation = async (opId: bigint, tokenB: string, amountB: bigint) => {
-    setActionLoading(Number(opId));
-    setMessage(null);
-
-    try {
-      const { getContract: getTokenContract } = useTokenContract(tokenB);
-      const tokenBContract = await getTokenContract();
-      if (!tokenBContract) throw new Error('Token contract not available');
-
-      const escrowContract = await getContract();
-      if (!escrowContract) throw new Error('Escrow contract not available');
-
-      // Step 1: Approve Token B
-      const approveTx = await tokenBContract.approve(ESCROW_ADDRESS, amountB);
-      await approveTx.wait();
-
-      // Step 2: Complete operation
-      const completeTx = await escrowContract.completeOperation(opId);
-      await completeTx.wait();
-
-      setMessage({ type: 'success', text: 'Operation completed successfully!' });
-      await loadOperations();
-
-      setTimeout(() => window.location.reload(), 2000);
-    } catch (error: any) {
-      console.error('Failed to complete operation:', error);
-      setMessage({
-        type: 'error',
-        text: error.reason || error.message || 'Failed to complete operation',
-      });
-    } finally {
-      setActionLoading(null);
-    }
-  };
+  const now = useNow();
+  const { operations, fillers, pending, isSyncing, refresh } = useOperations();
+  const { tokens, getToken } = useTokens();
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const [sort, setSort] = useState<OperationSort>(DEFAULT_SORT);
+  const [page, setPage] = useState(1);
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('permit');
 
-  const handleCancelOperation = async (opId: bigint) => {
-    setActionLoading(Number(opId));
-    setMessage(null);
+  useAutoRefresh(refresh);
 
-    try {
-      const escrowContract = await getContract();
-      if (!escrowContract) throw new Error('Escrow contract not available');
-
-      const tx = await escrowContract.cancelOperation(opId);
-      await tx.wait();
-
-      setMessage({ type: 'success', text: 'Operation cancelled successfully!' });
-      await loadOperations();
+  // Back to the first page whenever the result set changes shape
+  useEffect(() => {
+    setPage(1);
+  }, [filters, sort]);
+
+  const visible = useMemo(() => {
+    const decimalsOf = (token: Address) => getToken(token)?.decimals ?? 18;
+    return paginate(
+      sortOperations(filterOperations(operations, filters, address, now, fillers), sort, decimalsOf),
+      page,
+      PAGE_SIZE
+    );
+  }, [operations, fillers, filters, sort, address, page, getToken, now]);
 
-      setTimeout(() => window.location.reload(), 2000);
-    } catch (error: any) {
-      console.error('Failed to cancel operation:', error);
-      setMessage({
-        type: 'error',
-        text: error.reason || error.message || 'Failed to cancel operation',
-      });
-    } finally {
-      setActionLoading(null);
-    }
-  };
+  const pendingCreates = pending.filter(
+    (change): change is Extract<PendingChange, { kind: 'create' }> => change.kind === 'create'
+  );
 
   const formatAddress = (address: string) => {
     return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
   };
 
-  const getStatusLabel = (status: number) => {
-    switch (status) {
-      case 0:
-        return { label: 'Active', color: 'bg-green-100 text-green-800' };
-      case 1:
-        return { label: 'Completed', color: 'bg-blue-100 text-blue-800' };
-      case 2:
-        return { label: 'Cancelled', color: 'bg-gray-100 text-gray-800' };
-      default:
-        return { label: 'Unknown', color: 'bg-red-100 text-red-800' };
-    }
-  };
-
   if (!address) {
     return (
       <div className="bg-white rounded-lg shadow p-6">
@@ -135,130 +89,175 @@ export default function OperationsList() {
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-xl font-bold">Operations</h2>
         <button
-          onClick={loadOperations}
-          className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 rounded transition"
+          onClick={refresh}
+          disabled={isSyncing}
+          className={`px-3 py-1 text-sm rounded transition ${
+            isSyncing
+              ? 'bg-gray-300 cursor-not-allowed'
+              : 'bg-gray-200 hover:bg-gray-300'
+          }`}
         >
-          Refresh
+          {isSyncing ? 'Syncing...' : 'Refresh'}
         </button>
       </div>
 
-      {operations.length === 0 ? (
+      <div className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+        <span className="whitespace-nowrap">Approval when completing:</span>
+        <ApprovalModeSelect
+          value={approvalMode}
+          onChange={setApprovalMode}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+      </div>
+
+      <OperationFilters
+        filters={filters}
+        sort={sort}
+        tokens={tokens}
+        onFiltersChange={setFilters}
+        onSortChange={setSort}
+      />
+
+      {operations.length === 0 && pendingCreates.length === 0 ? (
         <p className="text-gray-500">No operations yet</p>
+      ) : visible.items.length === 0 && pendingCreates.length === 0 ? (
+        <p className="text-gray-500">No operations match these filters</p>
       ) : (
         <div className="space-y-4">
-          {operations.map((op, index) => {
-            const status = getStatusLabel(op.status);
-            const isCreator = address && op.creator.toLowerCase() === address.toLowerCase();
-            const isActive = op.status === 0;
-            const isLoading = actionLoading === Number(op.id);
+          {pendingCreates.map((change) => (
+            <div key={change.hash} className="border border-dashed border-yellow-300 bg-yellow-50 rounded-lg p-4">
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <span className="text-sm font-medium text-gray-600">New operation</span>
+                  <p className="text-xs text-gray-500 mt-1 font-mono">
+                    Tx: {formatAddress(change.hash)}
+                  </p>
+                </div>
+                <span className="px-2 py-1 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                  Pending
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-white p-3 rounded">
+                  <p className="text-xs text-gray-600 mb-1">Offering</p>
+                  <OperationToken tokenAddress={change.tokenA} amount={change.amountA} tokenId={change.tokenIdA} />
+                </div>
+                <div className="bg-white p-3 rounded">
+                  <p className="text-xs text-gray-600 mb-1">Requesting</p>
+                  <OperationToken tokenAddress={change.tokenB} amount={change.amountB} tokenId={change.tokenIdB} />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {visible.items.map((op) => {
+            const pendingChange = pending.find(
+              (change): change is Exclude<PendingChange, { kind: 'create' }> =>
+                change.kind !== 'create' && change.operationId === op.id
+            );
+            const isActive = op.status === OperationStatus.Active;
+            const expired = isExpired(op, now);
 
             return (
-              <div key={index} className="border border-gray-200 rounded-lg p-4">
+              <div key={op.id.toString()} className="border border-gray-200 rounded-lg p-4">
                 <div className="flex justify-between items-start mb-3">
                   <div>
-                    <span className="text-sm font-medium text-gray-600">Operation #{op.id.toString()}</span>
+                    <Link
+                      href={operationPath(op.id)}
+                      className="text-sm font-medium text-gray-600 hover:text-blue-600 hover:underline"
+                    >
+                      Operation #{op.id.toString()}
+                    </Link>
                     <p className="text-xs text-gray-500 mt-1">
                       Creator: {formatAddress(op.creator)}
                     </p>
+                    {isPrivate(op) && (
+                      <p className="text-xs text-purple-700 mt-1">
+                        Private:{' '}
+                        {canFillAs(op, address) ? 'reserved for you' : `reserved for ${formatAddress(op.counterparty)}`}
+                      </p>
+                    )}
+                    {isActive && op.deadline !== 0n && (
+                      <p className={`text-xs mt-1 ${expired ? 'text-orange-700' : 'text-gray-500'}`}>
+                        {expired
+                          ? `Expired ${formatDeadline(op.deadline)}`
+                          : `Expires in ${formatCountdown(op.deadline - now)}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <CopyLinkButton operationId={op.id} />
+                    <StatusBadge op={op} now={now} pendingKind={pendingChange?.kind} />
                   </div>
-                  <span className={`px-2 py-1 rounded text-xs font-medium ${status.color}`}>
-                    {status.label}
-                  </span>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4 mb-3">
                   <div className="bg-gray-50 p-3 rounded">
                     <p className="text-xs text-gray-600 mb-1">Offering</p>
-                    <OperationToken tokenAddress={op.tokenA} amount={op.amountA} />
+                    <OperationToken tokenAddress={op.tokenA} amount={op.amountA} tokenId={op.tokenIdA} />
+                    {isActive && <NetPayout op={op} />}
                   </div>
                   <div className="bg-gray-50 p-3 rounded">
                     <p className="text-xs text-gray-600 mb-1">Requesting</p>
-                    <OperationToken tokenAddress={op.tokenB} amount={op.amountB} />
+                    <OperationToken tokenAddress={op.tokenB} amount={op.amountB} tokenId={op.tokenIdB} />
                   </div>
                 </div>
 
-                {isActive && (
-                  <div className="flex gap-2">
-                    {isCreator ? (
-                      <button
-                        onClick={() => handleCancelOperation(op.id)}
-                        disabled={isLoading}
-                        className={`flex-1 py-2 rounded transition ${
-                          isLoading
-                            ? 'bg-gray-400 cursor-not-allowed'
-                            : 'bg-red-500 hover:bg-red-600 text-white'
-                        }`}
-                      >
-                        {isLoading ? 'Cancelling...' : 'Cancel Operation'}
-                      </button>
-                    ) : (
-                      <button
-                        onClick={() => handleCompleteOperation(op.id, op.tokenB, op.amountB)}
-                        disabled={isLoading}
-                        className={`flex-1 py-2 rounded transition ${
-                          isLoading
-                            ? 'bg-gray-400 cursor-not-allowed'
-                            : 'bg-green-500 hover:bg-green-600 text-white'
-                        }`}
-                      >
-                        {isLoading ? 'Completing...' : 'Complete Operation'}
-                      </button>
-                    )}
-                  </div>
-                )}
+                {op.partiallyFillable && <FillProgress op={op} />}
 
-                {isLoading && (
-                  <p className="text-xs text-gray-600 text-center mt-2">
-                    Please confirm transaction(s) in MetaMask
-                  </p>
-                )}
+                <OperationActions op={op} now={now} approvalMode={approvalMode} isPending={!!pendingChange} />
               </div>
             );
           })}
         </div>
       )}
 
-      {message && (
-        <div
-          className={`mt-4 p-3 rounded ${
-            message.type === 'success'
-              ? 'bg-green-100 text-green-800 border border-green-300'
-              : 'bg-red-100 text-red-800 border border-red-300'
-          }`}
-        >
-          {message.text}
+      {visible.pageCount > 1 && (
+        <div className="flex justify-between items-center mt-4 text-sm">
+          <button
+            onClick={() => setPage(visible.page - 1)}
+            disabled={visible.page === 1}
+            className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            Previous
+          </button>
+          <span className="text-gray-600">
+            Page {visible.page} of {visible.pageCount}
+          </span>
+          <button
+            onClick={() => setPage(visible.page + 1)}
+            disabled={visible.page === visible.pageCount}
+            className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            Next
+          </button>
         </div>
       )}
+
     </div>
   );
 }
 
-// Helper component to display token info
-function OperationToken({ tokenAddress, amount }: { tokenAddress: string; amount: bigint }) {
-  const publicClient = usePublicClient();
-  const [symbol, setSymbol] = useState('...');
-
-  useEffect(() => {
-    const loadSymbol = async () => {
-      if (!publicClient) return;
-
-      try {
-        const provider = new BrowserProvider(publicClient as any);
-        const token = new ethers.Contract(tokenAddress, ERC20ABI, provider);
-        const sym = await token.symbol();
-        setSymbol(sym);
-      } catch (error) {
-        console.error('Failed to load token symbol:', error);
-        setSymbol('Unknown');
-      }
-    };
-
-    loadSymbol();
-  }, [tokenAddress, publicClient]);
+// tokenA the completer ends up with once the protocol fee is taken (ERC721 items are never charged)
+function NetPayout({ op }: { op: Operation }) {
+  const { getToken } = useTokens();
+  const { feeBps } = useOperations();
+  const token = getToken(op.tokenA);
+  if (!token || feeBps === 0n || !chargesFee(op)) return null;
 
   return (
-    <p className="font-medium">
-      {ethers.formatEther(amount)} {symbol}
+    <p className="text-xs text-gray-500 mt-1">
+      Completer receives {formatLeg(token, netFillAmountA(op, remainingB(op), feeBps), op.tokenIdA)} after the{' '}
+      {formatBps(feeBps)} fee
     </p>
   );
 }
+
+// Helper component to display one leg: a token amount, an NFT or an amount of an ERC1155 id
+function OperationToken({ tokenAddress, amount, tokenId }: { tokenAddress: Address; amount: bigint; tokenId: bigint }) {
+  const { getToken } = useTokens();
+  const token = getToken(tokenAddress);
+
+  return <p className="font-medium">{token ? formatLeg(token, amount, tokenId) : '...'}</p>;
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { Address } from 'viem';
+import { useAccount } from 'wagmi';
+import { formatRate, formatTokenAmount } from '../lib/amounts';
+import { Operation, remainingB } from '../lib/escrow';
+import { bookOperations, buildOrderBook, OrderBookLevel, tokenPairs } from '../lib/orderBook';
+import { PendingChange, useOperations } from '../lib/operations';
+import { operationPath } from '../lib/routes';
+import { TokenMetadata, useTokens } from '../lib/tokens';
+import type { ApprovalMode } from '../hooks/useTokenApproval';
+import { useNow } from '../hooks/useNow';
+import ApprovalModeSelect from './ApprovalModeSelect';
+import OperationActions from './OperationActions';
+import StatusBadge from './StatusBadge';
+
+const pairKey = (base: Address, quote: Address) => `${base.toLowerCase()}:${quote.toLowerCase()}`;
+
+/**
+ * Active operations grouped by token pair, with offers in both directions priced in the
+ * same quote token. Selecting a level opens the completion flow for that operation.
+ */
+export default function OrderBook() {
+  const { address } = useAccount();
+  const now = useNow();
+  const { operations, pending } = useOperations();
+  const { getToken } = useTokens();
+  const [selectedPair, setSelectedPair] = useState('');
+  const [flipped, setFlipped] = useState(false);
+  const [selectedId, setSelectedId] = useState<bigint | null>(null);
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('permit');
+
+  const active = useMemo(() => bookOperations(operations, address, now), [operations, address, now]);
+  const pairs = useMemo(() => tokenPairs(active), [active]);
+  const pair = pairs.find(({ base, quote }) => pairKey(base, quote) === selectedPair) ?? pairs[0];
+
+  const book = useMemo(() => {
+    if (!pair) return null;
+    const decimalsOf = (token: Address) => getToken(token)?.decimals ?? 18;
+    const { base, quote } = pair;
+    return buildOrderBook(active, flipped ? { base: quote, quote: base } : { base, quote }, decimalsOf);
+  }, [active, pair, flipped, getToken]);
+
+  // Looked up in the full list so the outcome stays visible after the operation leaves the book
+  const selected = operations.find((op) => op.id === selectedId);
+  const pairLabel = (base: Address, quote: Address) =>
+    `${getToken(base)?.symbol ?? '...'} / ${getToken(quote)?.symbol ?? '...'}`;
+
+  if (!book) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-bold mb-4">Order Book</h2>
+        <p className="text-gray-500">No active operations yet</p>
+      </div>
+    );
+  }
+
+  const baseToken = getToken(book.base);
+  const quoteToken = getToken(book.quote);
+  // Both sides share one scale so their depth bars are comparable
+  const askDepth = book.asks.at(-1)?.depth ?? 0n;
+  const bidDepth = book.bids.at(-1)?.depth ?? 0n;
+  const maxDepth = askDepth > bidDepth ? askDepth : bidDepth;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <h2 className="text-xl font-bold">Order Book</h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={pairKey(pair.base, pair.quote)}
+              onChange={(e) => {
+                setSelectedPair(e.target.value);
+                setFlipped(false);
+              }}
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+            >
+              {pairs.map(({ base, quote }) => (
+                <option key={pairKey(base, quote)} value={pairKey(base, quote)}>
+                  {pairLabel(base, quote)}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setFlipped(!flipped)}
+              className="px-2 py-1 text-sm rounded bg-gray-200 hover:bg-gray-300 transition"
+            >
+              Flip
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+          <Stat label="Best bid" value={book.bestBid} quote={quoteToken} color="text-green-700" />
+          <Stat label="Best ask" value={book.bestAsk} quote={quoteToken} color="text-red-700" />
+          <Stat label="Spread" value={book.spread} quote={quoteToken} color="text-gray-900" />
+        </div>
+
+        <p className="text-xs text-gray-500 mb-2">
+          Prices in {quoteToken?.symbol ?? '...'} per {baseToken?.symbol ?? '...'}; sizes in {baseToken?.symbol ?? '...'}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <BookSide
+            title="Bids"
+            levels={book.bids}
+            base={baseToken}
+            maxDepth={maxDepth}
+            barColor="rgba(34, 197, 94, 0.15)"
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+          />
+          <BookSide
+            title="Asks"
+            levels={book.asks}
+            base={baseToken}
+            maxDepth={maxDepth}
+            barColor="rgba(239, 68, 68, 0.15)"
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        {selected ? (
+          <SelectedOperation
+            key={selected.id.toString()}
+            op={selected}
+            now={now}
+            approvalMode={approvalMode}
+            onApprovalModeChange={setApprovalMode}
+            pending={pending}
+          />
+        ) : (
+          <p className="text-gray-500">Select a level to take that operation</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  quote,
+  color,
+}: {
+  label: string;
+  value: number | null;
+  quote: TokenMetadata | undefined;
+  color: string;
+}) {
+  return (
+    <div className="bg-gray-50 p-3 rounded">
+      <p className="text-xs text-gray-600 mb-1">{label}</p>
+      <p className={`font-medium ${color}`}>
+        {value === null ? '-' : `${formatRate(value)} ${quote?.symbol ?? ''}`}
+      </p>
+    </div>
+  );
+}
+
+// One side of the book; the bar behind each row shows cumulative depth
+function BookSide({
+  title,
+  levels,
+  base,
+  maxDepth,
+  barColor,
+  selectedId,
+  onSelect,
+}: {
+  title: string;
+  levels: OrderBookLevel[];
+  base: TokenMetadata | undefined;
+  maxDepth: bigint;
+  /** CSS color of the depth bar */
+  barColor: string;
+  selectedId: bigint | null;
+  onSelect: (operationId: bigint) => void;
+}) {
+  const format = (amount: bigint) => (base ? formatTokenAmount(amount, base.decimals, 6) : '...');
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">{title}</h3>
+      {levels.length === 0 ? (
+        <p className="text-sm text-gray-500">No offers</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th className="font-normal py-1">Price</th>
+              <th className="font-normal py-1 text-right">Size</th>
+              <th className="font-normal py-1 text-right">Depth</th>
+            </tr>
+          </thead>
+          <tbody>
+            {levels.map((level) => {
+              const percent = maxDepth === 0n ? 0 : Number((level.depth * 10_000n) / maxDepth) / 100;
+              return (
+                <tr
+                  key={level.op.id.toString()}
+                  onClick={() => onSelect(level.op.id)}
+                  className={`cursor-pointer hover:bg-gray-50 ${level.op.id === selectedId ? 'font-semibold' : ''}`}
+                  style={{ backgroundImage: `linear-gradient(to left, ${barColor} ${percent}%, transparent ${percent}%)` }}
+                >
+                  <td className="py-1">{formatRate(level.price)}</td>
+                  <td className="py-1 text-right">{format(level.size)}</td>
+                  <td className="py-1 text-right">{format(level.depth)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// Summary and actions of the operation behind the selected level
+function SelectedOperation({
+  op,
+  now,
+  approvalMode,
+  onApprovalModeChange,
+  pending,
+}: {
+  op: Operation;
+  now: bigint;
+  approvalMode: ApprovalMode;
+  onApprovalModeChange: (mode: ApprovalMode) => void;
+  pending: PendingChange[];
+}) {
+  const { getToken } = useTokens();
+  const tokenA = getToken(op.tokenA);
+  const tokenB = getToken(op.tokenB);
+  const pendingChange = pending.find(
+    (change): change is Exclude<PendingChange, { kind: 'create' }> =>
+      change.kind !== 'create' && change.operationId === op.id
+  );
+
+  return (
+    <>
+      <div className="flex justify-between items-start mb-3">
+        <Link href={operationPath(op.id)} className="text-lg font-bold hover:text-blue-600 hover:underline">
+          Operation #{op.id.toString()}
+        </Link>
+        <StatusBadge op={op} now={now} pendingKind={pendingChange?.kind} />
+      </div>
+      <p className="text-sm text-gray-700 mb-3">
+        Offers {tokenA ? `${formatTokenAmount(op.amountA - op.filledA, tokenA.decimals)} ${tokenA.symbol}` : '...'}{' '}
+        for {tokenB ? `${formatTokenAmount(remainingB(op), tokenB.decimals)} ${tokenB.symbol}` : '...'}
+      </p>
+      <div className="flex items-center gap-2 mb-3 text-sm text-gray-700">
+        <span className="whitespace-nowrap">Approval:</span>
+        <ApprovalModeSelect
+          value={approvalMode}
+          onChange={onApprovalModeChange}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+      </div>
+      <OperationActions op={op} now={now} approvalMode={approvalMode} isPending={!!pendingChange} />
+    </>
+  );
+}
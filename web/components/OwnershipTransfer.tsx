@@ -0,0 +1,160 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { isAddress, zeroAddress } from 'viem';
+import type { Address, Hash } from 'viem';
+import { useAccount } from 'wagmi';
+import { useOperations } from '../lib/operations';
+import { useTransactions } from '../lib/transactions';
+import { useEscrowContract } from '../hooks/useEscrowContract';
+import { useEscrowOwner } from '../hooks/useEscrowOwner';
+import { usePreflight, usePreflightReason } from '../hooks/usePreflight';
+
+const shortAddress = (address: Address) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+/**
+ * Two-step ownership transfer: the owner nominates an account, which then has to accept.
+ * The owner sees the nomination form, the nominated account sees the accept button.
+ */
+export default function OwnershipTransfer() {
+  const { address } = useAccount();
+  const { getContract } = useEscrowContract();
+  const { refresh } = useOperations();
+  const { runFlow, notify } = useTransactions();
+  const { owner, pendingOwner, isOwner, isPendingOwner } = useEscrowOwner();
+  const { checkTransferOwnership, checkAcceptOwnership } = usePreflight();
+  const [newOwnerInput, setNewOwnerInput] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const newOwnerError = newOwnerInput && !isAddress(newOwnerInput) ? 'Enter a valid address' : null;
+  const newOwner = newOwnerInput && !newOwnerError ? (newOwnerInput as Address) : undefined;
+
+  const transferCheck = useCallback(
+    () => checkTransferOwnership(newOwner),
+    [newOwner, checkTransferOwnership]
+  );
+  const { reason: transferReason, isChecking: isCheckingTransfer } = usePreflightReason(
+    isOwner ? transferCheck : null
+  );
+  const { reason: acceptReason, isChecking: isCheckingAccept } = usePreflightReason(
+    isPendingOwner ? checkAcceptOwnership : null
+  );
+
+  const runOwnershipCall = async (title: string, send: () => Promise<Hash>) => {
+    setLoading(true);
+
+    const { result } = runFlow(title, [
+      {
+        label: title,
+        run: send,
+        // Re-read the owner as soon as the transfer is mined
+        track: async (_hash, confirmation) => {
+          await confirmation;
+          await refresh();
+        },
+      },
+    ]);
+
+    const succeeded = await result;
+    setLoading(false);
+    return succeeded;
+  };
+
+  // Nominating the zero address withdraws a pending offer
+  const nominate = async (nominee: Address, title: string) => {
+    const contract = getContract();
+    if (!address || !contract) {
+      notify('error', 'Please connect your wallet first');
+      return false;
+    }
+
+    return runOwnershipCall(title, async () => {
+      await contract.simulate.transferOwnership([nominee], { account: address });
+      return contract.write.transferOwnership([nominee]);
+    });
+  };
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newOwner) return;
+    if (await nominate(newOwner, `Offer ownership to ${shortAddress(newOwner)}`)) setNewOwnerInput('');
+  };
+
+  const handleAccept = async () => {
+    const contract = getContract();
+    if (!address || !contract) {
+      notify('error', 'Please connect your wallet first');
+      return;
+    }
+
+    await runOwnershipCall('Accept ownership', async () => {
+      await contract.simulate.acceptOwnership({ account: address });
+      return contract.write.acceptOwnership();
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-bold mb-4">Ownership</h2>
+
+      <dl className="mb-4 text-sm space-y-1">
+        <dt className="text-gray-600">Owner</dt>
+        <dd className="font-mono text-xs break-all">{owner ?? '...'}</dd>
+        <dt className="text-gray-600">Pending owner</dt>
+        <dd className="font-mono text-xs break-all">{pendingOwner ?? 'None'}</dd>
+      </dl>
+
+      {isPendingOwner && (
+        <div>
+          <p className="text-sm text-gray-700 mb-2">The owner has offered you ownership of the escrow.</p>
+          <button
+            onClick={handleAccept}
+            disabled={loading || isCheckingAccept || !!acceptReason}
+            className="w-full py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+          >
+            {loading ? 'Accepting...' : 'Accept Ownership'}
+          </button>
+          {acceptReason && <p className="text-xs text-red-600 text-center mt-1">{acceptReason}</p>}
+        </div>
+      )}
+
+      {isOwner && (
+        <>
+          <form onSubmit={handleTransfer} className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">New owner</label>
+            <input
+              type="text"
+              value={newOwnerInput}
+              onChange={(e) => setNewOwnerInput(e.target.value.trim())}
+              placeholder="0x..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {(newOwnerError || transferReason) && (
+              <p className="text-xs text-red-600">{newOwnerError ?? transferReason}</p>
+            )}
+            <button
+              type="submit"
+              disabled={loading || !newOwner || isCheckingTransfer || !!transferReason}
+              className="w-full py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-400 disabled:cursor-not-allowed transition"
+            >
+              {loading ? 'Sending...' : 'Offer Ownership'}
+            </button>
+            <p className="text-xs text-gray-500">
+              You stay the owner until the new account accepts, so a typo cannot lock you out.
+            </p>
+          </form>
+
+          {pendingOwner && (
+            <button
+              onClick={() => nominate(zeroAddress, 'Withdraw ownership offer')}
+              disabled={loading}
+              className="w-full mt-3 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition"
+            >
+              Withdraw Offer
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import Link from 'next/link';
+import { useOperations } from '../lib/operations';
+import { ADMIN_PATH, ORDER_BOOK_PATH } from '../lib/routes';
+import { useEscrowOwner } from '../hooks/useEscrowOwner';
+import ConnectButton from './ConnectButton';
+import Toasts from './Toasts';
+
+/**
+ * Header, footer and toasts shared by every page
+ */
+export default function PageLayout({ children }: { children: React.ReactNode }) {
+  const { isOwner, isPendingOwner } = useEscrowOwner();
+  const { paused } = useOperations();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <Link href="/" className="text-3xl font-bold text-gray-900">
+                Escrow DApp
+              </Link>
+              <p className="text-sm text-gray-600 mt-1">
+                Secure ERC20 Token Swaps on Ethereum
+              </p>
+            </div>
+            <div className="flex items-center gap-6">
+              <nav className="flex gap-4 text-sm font-medium text-gray-700">
+                <Link href="/" className="hover:text-blue-600">
+                  Operations
+                </Link>
+                <Link href={ORDER_BOOK_PATH} className="hover:text-blue-600">
+                  Order Book
+                </Link>
+                {(isOwner || isPendingOwner) && (
+                  <Link href={ADMIN_PATH} className="hover:text-blue-600">
+                    Admin
+                  </Link>
+                )}
+              </nav>
+              <ConnectButton />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {paused && (
+        <div className="bg-yellow-100 border-b border-yellow-300 text-yellow-800 text-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
+            <strong>The escrow is paused.</strong> New operations and fills are disabled until the owner
+            resumes it. You can still cancel your operations and reclaim expired ones.
+          </div>
+        </div>
+      )}
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">{children}</main>
+
+      {/* Footer */}
+      <footer className="bg-white border-t border-gray-200 mt-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="text-center text-gray-600 text-sm">
+            <p className="mb-2">
+              Built with Solidity 0.8.28, OpenZeppelin, Foundry, Next.js 14 & Ethers.js v6
+            </p>
+            <p className="text-xs text-gray-500">
+              Secure • Trustless • Decentralized
+            </p>
+          </div>
+        </div>
+      </footer>
+
+      <Toasts />
+    </div>
+  );
+}
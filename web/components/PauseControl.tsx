@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { useOperations } from '../lib/operations';
+import { useTransactions } from '../lib/transactions';
+import { useEscrowContract } from '../hooks/useEscrowContract';
+import { usePreflight, usePreflightReason } from '../hooks/usePreflight';
+
+/**
+ * Emergency switch: pausing stops new operations and fills, while cancelling and
+ * reclaiming keep working so users can always get their tokenA back
+ */
+export default function PauseControl() {
+  const { address } = useAccount();
+  const { getContract } = useEscrowContract();
+  const { paused, refresh } = useOperations();
+  const { runFlow, notify } = useTransactions();
+  const { checkSetPaused } = usePreflight();
+  const [loading, setLoading] = useState(false);
+
+  const pauseCheck = useCallback(() => checkSetPaused(!paused), [paused, checkSetPaused]);
+  const { reason, isChecking } = usePreflightReason(pauseCheck);
+
+  const handleToggle = async () => {
+    const contract = getContract();
+    if (!address || !contract) {
+      notify('error', 'Please connect your wallet first');
+      return;
+    }
+
+    setLoading(true);
+
+    const title = paused ? 'Resume escrow' : 'Pause escrow';
+    const { result } = runFlow(title, [
+      {
+        label: title,
+        run: async () => {
+          if (paused) {
+            await contract.simulate.unpause({ account: address });
+            return contract.write.unpause();
+          }
+          await contract.simulate.pause({ account: address });
+          return contract.write.pause();
+        },
+        // Show or hide the banner as soon as the transaction is mined
+        track: async (_hash, confirmation) => {
+          await confirmation;
+          await refresh();
+        },
+      },
+    ]);
+
+    await result;
+    setLoading(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-bold mb-4">Emergency Pause</h2>
+
+      <p className={`mb-4 text-sm ${paused ? 'text-yellow-800' : 'text-gray-700'}`}>
+        {paused
+          ? 'The escrow is paused: no operations can be created or filled.'
+          : 'The escrow is running. Pausing blocks new operations and fills; users can still cancel and reclaim.'}
+      </p>
+
+      <button
+        onClick={handleToggle}
+        disabled={loading || isChecking || !!reason}
+        className={`w-full py-2 rounded-lg text-white disabled:bg-gray-400 disabled:cursor-not-allowed transition ${
+          paused ? 'bg-green-500 hover:bg-green-600' : 'bg-red-500 hover:bg-red-600'
+        }`}
+      >
+        {loading ? 'Sending...' : paused ? 'Resume Escrow' : 'Pause Escrow'}
+      </button>
+      {reason && <p className="text-xs text-red-600 text-center mt-1">{reason}</p>}
+    </div>
+  );
+}
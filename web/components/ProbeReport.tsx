@@ -0,0 +1,78 @@
+'use client';
+
+import { ProbeStatus, probeVerdict, TokenProbeReport } from '../lib/tokenProbe';
+
+const STATUS_STYLES: Record<ProbeStatus, { icon: string; color: string }> = {
+  pass: { icon: '✓', color: 'text-green-700' },
+  warn: { icon: '!', color: 'text-yellow-700' },
+  fail: { icon: '✗', color: 'text-red-700' },
+};
+
+const VERDICTS: Record<ProbeStatus, { text: string; color: string }> = {
+  pass: { text: 'The token behaves like a standard ERC20.', color: 'bg-green-50 border-green-200 text-green-800' },
+  warn: {
+    text: 'The token works, but check the warnings before listing it.',
+    color: 'bg-yellow-50 border-yellow-300 text-yellow-800',
+  },
+  fail: {
+    text: 'The token failed some checks and will likely break operations that use it.',
+    color: 'bg-red-50 border-red-200 text-red-800',
+  },
+};
+
+/**
+ * Pre-listing report of a token, with the owner's confirm and cancel buttons
+ */
+export default function ProbeReport({
+  report,
+  loading,
+  onConfirm,
+  onCancel,
+}: {
+  report: TokenProbeReport;
+  loading: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  const verdict = probeVerdict(report);
+
+  return (
+    <div className="space-y-3">
+      <div className={`p-3 rounded border text-sm ${VERDICTS[verdict].color}`}>{VERDICTS[verdict].text}</div>
+
+      <ul className="space-y-1 text-sm">
+        {report.checks.map((check) => (
+          <li key={check.label} className="flex gap-2">
+            <span className={`w-4 font-bold ${STATUS_STYLES[check.status].color}`}>
+              {STATUS_STYLES[check.status].icon}
+            </span>
+            <span className="font-medium">{check.label}</span>
+            <span className="text-gray-600 break-all">{check.detail}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={loading}
+          className="flex-1 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 disabled:opacity-50 transition"
+        >
+          Cancel
+        </button>
+        {/* Without contract code there is nothing to list */}
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={loading || !report.hasCode}
+          className={`flex-1 py-2 rounded-lg text-white disabled:bg-gray-400 disabled:cursor-not-allowed transition ${
+            verdict === 'pass' ? 'bg-blue-500 hover:bg-blue-600' : 'bg-red-500 hover:bg-red-600'
+          }`}
+        >
+          {loading ? 'Sending...' : verdict === 'pass' ? 'Add Token' : 'Add Anyway'}
+        </button>
+      </div>
+    </div>
+  );
+}
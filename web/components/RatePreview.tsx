@@ -0,0 +1,85 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { Address } from 'viem';
+import { useAccount } from 'wagmi';
+import { formatRate, toDecimalNumber } from '../lib/amounts';
+import { marketRates, matchingAmountB, RATE_WARNING_THRESHOLD, rateDeviation } from '../lib/marketRates';
+import { useOperations } from '../lib/operations';
+import type { TokenMetadata } from '../lib/tokens';
+import { useNow } from '../hooks/useNow';
+
+/**
+ * Implied rate of the offer being created, compared with existing operations for the same pair
+ */
+export default function RatePreview({
+  tokenA,
+  tokenB,
+  amountA,
+  amountB,
+  onMatch,
+}: {
+  tokenA: TokenMetadata;
+  tokenB: TokenMetadata;
+  /** null while the amount is empty or invalid */
+  amountA: bigint | null;
+  amountB: bigint | null;
+  onMatch: (amountB: bigint) => void;
+}) {
+  const { address } = useAccount();
+  const now = useNow();
+  const { operations } = useOperations();
+
+  const market = useMemo(() => {
+    const decimalsOf = (token: Address) =>
+      token.toLowerCase() === tokenA.address.toLowerCase() ? tokenA.decimals : tokenB.decimals;
+    return marketRates(operations, tokenA.address, tokenB.address, address, now, decimalsOf);
+  }, [operations, tokenA, tokenB, address, now]);
+
+  const rate =
+    amountA && amountB
+      ? toDecimalNumber(amountB, tokenB.decimals) / toDecimalNumber(amountA, tokenA.decimals)
+      : null;
+  const deviation = rate !== null && market.reference !== null ? rateDeviation(rate, market.reference) : null;
+
+  return (
+    <div className="p-3 bg-gray-50 rounded text-sm text-gray-700 space-y-1">
+      {rate !== null && (
+        <>
+          <p>
+            1 {tokenA.symbol} = {formatRate(rate)} {tokenB.symbol}
+          </p>
+          <p>
+            1 {tokenB.symbol} = {formatRate(1 / rate)} {tokenA.symbol}
+          </p>
+        </>
+      )}
+
+      {market.reference === null ? (
+        <p className="text-xs text-gray-500">No other operations for this pair to compare with</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Market: 1 {tokenA.symbol} = {formatRate(market.reference)} {tokenB.symbol} (median of {market.samples}{' '}
+          active and recent operations)
+        </p>
+      )}
+
+      {deviation !== null && Math.abs(deviation) > RATE_WARNING_THRESHOLD && (
+        <p className="text-xs p-2 rounded bg-yellow-100 text-yellow-800 border border-yellow-300">
+          You ask {Math.round(Math.abs(deviation) * 100)}% {deviation > 0 ? 'more' : 'less'} {tokenB.symbol} per{' '}
+          {tokenA.symbol} than the market. Check that Amount A and Amount B are not swapped.
+        </p>
+      )}
+
+      {market.best && amountA && (
+        <button
+          type="button"
+          onClick={() => market.best && onMatch(matchingAmountB(market.best, tokenA.address, amountA))}
+          className="px-2 py-1 text-xs rounded bg-blue-100 hover:bg-blue-200 text-blue-800 transition"
+        >
+          Match best rate ({formatRate(market.best.price)} {tokenB.symbol})
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { effectiveStatus, Operation, OperationStatus } from '../lib/escrow';
+import type { PendingChange } from '../lib/operations';
+
+const PENDING_LABELS: Record<Exclude<PendingChange['kind'], 'create'>, string> = {
+  complete: 'Completing...',
+  fill: 'Filling...',
+  cancel: 'Cancelling...',
+  reclaim: 'Reclaiming...',
+};
+
+const STATUS_BADGES: Record<OperationStatus, { label: string; color: string }> = {
+  [OperationStatus.Active]: { label: 'Active', color: 'bg-green-100 text-green-800' },
+  [OperationStatus.Completed]: { label: 'Completed', color: 'bg-blue-100 text-blue-800' },
+  [OperationStatus.Cancelled]: { label: 'Cancelled', color: 'bg-gray-100 text-gray-800' },
+  [OperationStatus.Expired]: { label: 'Expired', color: 'bg-orange-100 text-orange-800' },
+};
+
+/**
+ * Status of an operation, or what our own unconfirmed transaction is about to do to it
+ */
+export default function StatusBadge({
+  op,
+  now,
+  pendingKind,
+}: {
+  op: Operation;
+  now: bigint;
+  pendingKind?: Exclude<PendingChange['kind'], 'create'>;
+}) {
+  const badge = pendingKind
+    ? { label: PENDING_LABELS[pendingKind], color: 'bg-yellow-100 text-yellow-800' }
+    : (STATUS_BADGES[effectiveStatus(op, now)] ?? { label: 'Unknown', color: 'bg-red-100 text-red-800' });
+
+  return <span className={`px-2 py-1 rounded text-xs font-medium ${badge.color}`}>{badge.label}</span>;
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useTransactions } from '../lib/transactions';
+
+const toastStyles = {
+  info: 'bg-blue-50 text-blue-800 border-blue-300',
+  success: 'bg-green-100 text-green-800 border-green-300',
+  error: 'bg-red-100 text-red-800 border-red-300',
+};
+
+export default function Toasts() {
+  const { toasts, dismissToast } = useTransactions();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 w-80">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className={`p-3 rounded-lg border shadow flex justify-between items-start gap-2 ${toastStyles[toast.type]}`}
+        >
+          <p className="text-sm break-words">{toast.text}</p>
+          <button
+            onClick={() => dismissToast(toast.id)}
+            className="text-xs opacity-60 hover:opacity-100"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
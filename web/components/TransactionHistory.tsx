@@ -0,0 +1,59 @@
+'use client';
+
+import { useAccount } from 'wagmi';
+import { useTransactions } from '../lib/transactions';
+import FlowSteps from './FlowSteps';
+
+const flowColors = {
+  queued: 'bg-gray-100 text-gray-800',
+  running: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function TransactionHistory() {
+  const { address } = useAccount();
+  const { flows, clearHistory } = useTransactions();
+
+  if (!address) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">Transactions</h2>
+        {flows.length > 0 && (
+          <button
+            onClick={clearHistory}
+            className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 rounded transition"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {flows.length === 0 ? (
+        <p className="text-gray-500">No transactions yet</p>
+      ) : (
+        <div className="space-y-3">
+          {flows.map((flow) => (
+            <div key={flow.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <p className="font-medium text-sm">{flow.title}</p>
+                  <p className="text-xs text-gray-500">{new Date(flow.createdAt).toLocaleString()}</p>
+                </div>
+                <span className={`px-2 py-1 rounded text-xs font-medium capitalize ${flowColors[flow.status]}`}>
+                  {flow.status}
+                </span>
+              </div>
+
+              <FlowSteps steps={flow.steps} />
+
+              {flow.error && <p className="text-xs text-red-700 mt-2 break-words">{flow.error}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
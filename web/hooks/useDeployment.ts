@@ -0,0 +1,12 @@
+import { useAccount, useChainId } from 'wagmi';
+import { Deployment, getDeployment } from '../lib/deployments';
+
+/**
+ * The Escrow deployment on the wallet's current chain, or null when there is none.
+ * Falls back to the configured chain while no wallet is connected.
+ */
+export function useDeployment(): Deployment | null {
+  const { chainId: walletChainId } = useAccount();
+  const configChainId = useChainId();
+  return getDeployment(walletChainId ?? configChainId);
+}
@@ -1,32 +1,39 @@
+import { useCallback } from 'react';
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
-import { Contract } from 'ethers';
-import { BrowserProvider } from 'ethers';
-import { ESCROW_ADDRESS, EscrowABI } from '../lib/contracts';
+import { getContract as getViemContract } from 'viem';
+import { escrowAbi } from '../lib/contracts';
+import { useDeployment } from './useDeployment';
 
 export function useEscrowContract() {
   const { address } = useAccount();
-  const publicClient = usePublicClient();
+  const deployment = useDeployment();
+  const escrowAddress = deployment?.escrow.address;
+  const publicClient = usePublicClient({ chainId: deployment?.chainId });
   const { data: walletClient } = useWalletClient();
 
-  const getContract = async () => {
-    if (!walletClient) return null;
+  const getContract = useCallback(() => {
+    if (!walletClient || !publicClient || !escrowAddress) return null;
 
-    // Crear provider de ethers desde walletClient de wagmi
-    const provider = new BrowserProvider(walletClient as any);
-    const signer = await provider.getSigner();
+    return getViemContract({
+      address: escrowAddress,
+      abi: escrowAbi,
+      client: { public: publicClient, wallet: walletClient },
+    });
+  }, [escrowAddress, publicClient, walletClient]);
 
-    return new Contract(ESCROW_ADDRESS, EscrowABI, signer);
-  };
-
-  const getReadContract = async () => {
-    if (!publicClient) return null;
+  const getReadContract = useCallback(() => {
+    if (!publicClient || !escrowAddress) return null;
 
-    const provider = new BrowserProvider(publicClient as any);
-    return new Contract(ESCROW_ADDRESS, EscrowABI, provider);
-  };
+    return getViemContract({
+      address: escrowAddress,
+      abi: escrowAbi,
+      client: publicClient,
+    });
+  }, [escrowAddress, publicClient]);
 
   return {
     address,
+    escrowAddress,
     getContract,
     getReadContract,
     isConnected: !!address,
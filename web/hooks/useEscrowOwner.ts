@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { zeroAddress } from 'viem';
+import type { Address } from 'viem';
+import { useAccount } from 'wagmi';
+import { useOperations } from '../lib/operations';
+import { useEscrowContract } from './useEscrowContract';
+
+const sameAddress = (a: Address | null, b: Address | undefined) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Current owner of the escrow and the account a two-step transfer is waiting on,
+ * re-read whenever the indexer picks up a new block
+ */
+export function useEscrowOwner() {
+  const { address } = useAccount();
+  const { getReadContract } = useEscrowContract();
+  const { lastSyncedBlock } = useOperations();
+  const [owner, setOwner] = useState<Address | null>(null);
+  const [pendingOwner, setPendingOwner] = useState<Address | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const escrow = getReadContract();
+    if (!escrow) return;
+
+    let cancelled = false;
+    Promise.all([escrow.read.owner(), escrow.read.pendingOwner()])
+      .then(([currentOwner, nextOwner]) => {
+        if (cancelled) return;
+        setOwner(currentOwner);
+        setPendingOwner(nextOwner === zeroAddress ? null : nextOwner);
+      })
+      .catch((error) => console.error('Failed to read escrow owner:', error))
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getReadContract, lastSyncedBlock]);
+
+  return {
+    owner,
+    pendingOwner,
+    isOwner: sameAddress(owner, address),
+    isPendingOwner: sameAddress(pendingOwner, address),
+    isLoading,
+  };
+}
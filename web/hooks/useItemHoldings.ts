@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { erc1155Abi, erc721Abi } from '../lib/contracts';
+import { errorMessage } from '../lib/errors';
+import { AssetType } from '../lib/escrow';
+import { logChunks } from '../lib/indexer';
+import { useOperations } from '../lib/operations';
+import type { TokenMetadata } from '../lib/tokens';
+
+export interface ItemHolding {
+  tokenId: bigint;
+  /** Always 1n for ERC721 items */
+  balance: bigint;
+}
+
+type PublicClient = NonNullable<ReturnType<typeof usePublicClient>>;
+
+// Ids sent to `account` between two blocks, from the collection's own transfer history
+async function receivedIds(
+  client: PublicClient,
+  collection: TokenMetadata,
+  account: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<bigint[]> {
+  if (collection.assetType === AssetType.ERC721) {
+    const logs = await client.getContractEvents({
+      address: collection.address,
+      abi: erc721Abi,
+      eventName: 'Transfer',
+      args: { to: account },
+      fromBlock,
+      toBlock,
+    });
+    return logs.flatMap((log) => (log.args.tokenId === undefined ? [] : [log.args.tokenId]));
+  }
+
+  const [single, batch] = await Promise.all([
+    client.getContractEvents({
+      address: collection.address,
+      abi: erc1155Abi,
+      eventName: 'TransferSingle',
+      args: { to: account },
+      fromBlock,
+      toBlock,
+    }),
+    client.getContractEvents({
+      address: collection.address,
+      abi: erc1155Abi,
+      eventName: 'TransferBatch',
+      args: { to: account },
+      fromBlock,
+      toBlock,
+    }),
+  ]);
+  return [
+    ...single.flatMap((log) => (log.args.id === undefined ? [] : [log.args.id])),
+    ...batch.flatMap((log) => (log.args.ids === undefined ? [] : [...log.args.ids])),
+  ];
+}
+
+/**
+ * Ids `account` has received up to `lastBlock`. The first scan starts at genesis, since a
+ * collection may predate the escrow; later ones only cover new blocks.
+ */
+interface ReceivedScan {
+  lastBlock: bigint;
+  ids: Set<bigint>;
+}
+
+/**
+ * Items of an ERC721 or ERC1155 collection the connected account currently holds.
+ * Candidates come from transfers to the account and are confirmed with ownerOf / balanceOfBatch,
+ * so items sent away again drop out.
+ */
+export function useItemHoldings(collection: TokenMetadata | undefined) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { lastSyncedBlock } = useOperations();
+  const [holdings, setHoldings] = useState<ItemHolding[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Keyed by chain, collection and account, so switching back and forth never rescans
+  const scansRef = useRef(new Map<string, ReceivedScan>());
+
+  useEffect(() => {
+    setHoldings([]);
+    setError(null);
+    if (!publicClient || !address || !collection || collection.assetType === AssetType.ERC20) return;
+
+    let cancelled = false;
+
+    const load = async (): Promise<ItemHolding[]> => {
+      const key = `${publicClient.chain?.id}:${collection.address}:${address}`.toLowerCase();
+      const head = await publicClient.getBlockNumber();
+      let scan = scansRef.current.get(key);
+      // A head below the last scan means the chain was reset (e.g. Anvil restarted)
+      if (!scan || scan.lastBlock > head) scan = { lastBlock: -1n, ids: new Set() };
+
+      const ids = new Set(scan.ids);
+      for (const chunk of logChunks(scan.lastBlock + 1n, head)) {
+        for (const id of await receivedIds(publicClient, collection, address, chunk.fromBlock, chunk.toBlock)) {
+          ids.add(id);
+        }
+      }
+      scansRef.current.set(key, { lastBlock: head, ids });
+
+      // Candidates are confirmed every time, so items sent away again drop out
+      const candidates = [...ids].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      if (candidates.length === 0) return [];
+
+      if (collection.assetType === AssetType.ERC721) {
+        const owners = await Promise.all(
+          candidates.map((tokenId) =>
+            publicClient
+              .readContract({ address: collection.address, abi: erc721Abi, functionName: 'ownerOf', args: [tokenId] })
+              .catch(() => null)
+          )
+        );
+        return candidates
+          .filter((_, index) => owners[index]?.toLowerCase() === address.toLowerCase())
+          .map((tokenId) => ({ tokenId, balance: 1n }));
+      }
+
+      const balances = await publicClient.readContract({
+        address: collection.address,
+        abi: erc1155Abi,
+        functionName: 'balanceOfBatch',
+        args: [candidates.map(() => address), candidates],
+      });
+      return candidates
+        .map((tokenId, index) => ({ tokenId, balance: balances[index] }))
+        .filter((holding) => holding.balance > 0n);
+    };
+
+    setIsLoading(true);
+    load()
+      .then((loaded) => !cancelled && setHoldings(loaded))
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to load item holdings:', err);
+        setError(errorMessage(err, 'Failed to load your items'));
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, address, collection, lastSyncedBlock]);
+
+  return { holdings, isLoading, error };
+}
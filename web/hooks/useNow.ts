@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { nowSeconds } from '../lib/deadlines';
+
+/**
+ * Current unix time in seconds, re-rendering every `intervalMs`
+ */
+export function useNow(intervalMs = 1000): bigint {
+  const [now, setNow] = useState(nowSeconds);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(nowSeconds()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
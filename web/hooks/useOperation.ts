@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { errorMessage } from '../lib/errors';
+import { Operation, toOperation } from '../lib/escrow';
+import { useOperations } from '../lib/operations';
+import { useEscrowContract } from './useEscrowContract';
+
+/**
+ * Read a single operation straight from the contract with `getOperation`,
+ * re-reading it whenever the indexer picks up a new block
+ */
+export function useOperation(operationId: bigint) {
+  const { getReadContract } = useEscrowContract();
+  const { lastSyncedBlock } = useOperations();
+  const [operation, setOperation] = useState<Operation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const escrow = getReadContract();
+    if (!escrow) return;
+
+    let cancelled = false;
+    escrow.read
+      .getOperation([operationId])
+      .then((raw) => {
+        if (cancelled) return;
+        setOperation(toOperation(raw));
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setOperation(null);
+        setError(errorMessage(err, `Failed to load operation #${operationId}`));
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [operationId, getReadContract, lastSyncedBlock]);
+
+  return { operation, error, isLoading };
+}
@@ -0,0 +1,163 @@
+import { useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import type { Hash } from 'viem';
+import { AssetType, Operation, remainingB } from '../lib/escrow';
+import { useOperations } from '../lib/operations';
+import { useTokens } from '../lib/tokens';
+import { FlowStepDefinition, useTransactions } from '../lib/transactions';
+import { useEscrowContract } from './useEscrowContract';
+import { ApprovalMode, PermitSignature, useTokenApproval } from './useTokenApproval';
+
+/**
+ * Complete, fill and cancel flows for an existing operation, run through the transaction manager
+ */
+export function useOperationActions() {
+  const { address } = useAccount();
+  const { getContract } = useEscrowContract();
+  const { getAllowance, supportsPermit, approve, signPermit, isCollectionApproved, approveCollection } =
+    useTokenApproval();
+  const { trackPending } = useOperations();
+  const { getToken } = useTokens();
+  const { runFlow } = useTransactions();
+
+  /**
+   * Supply `amountB` of tokenB to an operation. Taking the whole remainder completes it;
+   * anything less is a partial fill.
+   */
+  const fillOperation = useCallback(
+    async (op: Operation, amountB: bigint, approvalMode: ApprovalMode) => {
+      const escrowContract = getContract();
+      if (!escrowContract) throw new Error('Escrow contract not available');
+
+      const isComplete = amountB === remainingB(op);
+      const tokenB = getToken(op.tokenB);
+      const symbolB = tokenB?.symbol ?? 'token';
+      // An ETH tokenB is sent along with the call instead of being pulled from an allowance
+      const value = tokenB?.native ? amountB : undefined;
+      const title = `${isComplete ? 'Complete' : 'Fill'} operation #${op.id}`;
+      const track = (hash: Hash, confirmation: Promise<unknown>) =>
+        trackPending({ kind: isComplete ? 'complete' : 'fill', hash, operationId: op.id }, confirmation);
+
+      // Simulate right before the wallet prompt so a revert never costs gas
+      const fill = async () => {
+        if (isComplete) {
+          await escrowContract.simulate.completeOperation([op.id], { account: address, value });
+          return escrowContract.write.completeOperation([op.id], { value });
+        }
+        await escrowContract.simulate.fillOperation([op.id, amountB], { account: address, value });
+        return escrowContract.write.fillOperation([op.id, amountB], { value });
+      };
+
+      const fillWithPermit = async (permit: PermitSignature) => {
+        if (isComplete) {
+          const args = [op.id, permit.deadline, permit.v, permit.r, permit.s] as const;
+          await escrowContract.simulate.completeOperationWithPermit(args, { account: address });
+          return escrowContract.write.completeOperationWithPermit(args);
+        }
+        const args = [op.id, amountB, permit.deadline, permit.v, permit.r, permit.s] as const;
+        await escrowContract.simulate.fillOperationWithPermit(args, { account: address });
+        return escrowContract.write.fillOperationWithPermit(args);
+      };
+
+      // Only ask for an approval when the current allowance does not cover amountB.
+      // Collections have no permit and are approved as a whole.
+      const steps: FlowStepDefinition[] = [];
+      if (op.assetTypeB !== AssetType.ERC20) {
+        if (!(await isCollectionApproved(op.tokenB))) {
+          steps.push({ label: `Approve ${symbolB} collection`, run: () => approveCollection(op.tokenB) });
+        }
+        steps.push({ label: title, run: fill, track });
+      } else if (tokenB?.native || (await getAllowance(op.tokenB)) >= amountB) {
+        steps.push({ label: title, run: fill, track });
+      } else if (approvalMode === 'permit' && (await supportsPermit(op.tokenB))) {
+        let permit: PermitSignature;
+        steps.push(
+          {
+            label: `Sign ${symbolB} permit`,
+            kind: 'signature',
+            run: async () => {
+              permit = await signPermit(op.tokenB, amountB);
+            },
+          },
+          { label: title, run: () => fillWithPermit(permit), track }
+        );
+      } else {
+        steps.push(
+          {
+            label: `Approve ${symbolB}${approvalMode === 'unlimited' ? ' (unlimited)' : ''}`,
+            run: () => approve(op.tokenB, amountB, approvalMode === 'unlimited' ? 'unlimited' : 'exact'),
+          },
+          { label: title, run: fill, track }
+        );
+      }
+
+      return runFlow(title, steps);
+    },
+    [
+      address,
+      getContract,
+      getAllowance,
+      supportsPermit,
+      approve,
+      signPermit,
+      isCollectionApproved,
+      approveCollection,
+      trackPending,
+      getToken,
+      runFlow,
+    ]
+  );
+
+  const completeOperation = useCallback(
+    (op: Operation, approvalMode: ApprovalMode) => fillOperation(op, remainingB(op), approvalMode),
+    [fillOperation]
+  );
+
+  const cancelOperation = useCallback(
+    (op: Operation) => {
+      const escrowContract = getContract();
+      if (!escrowContract) throw new Error('Escrow contract not available');
+
+      return runFlow(`Cancel operation #${op.id}`, [
+        {
+          label: `Cancel operation #${op.id}`,
+          run: async () => {
+            await escrowContract.simulate.cancelOperation([op.id], { account: address });
+            return escrowContract.write.cancelOperation([op.id]);
+          },
+          track: (hash, confirmation) => trackPending({ kind: 'cancel', hash, operationId: op.id }, confirmation),
+        },
+      ]);
+    },
+    [address, getContract, trackPending, runFlow]
+  );
+
+  /**
+   * Return tokenA to the creator of an expired operation (anyone may call this)
+   */
+  const reclaimOperation = useCallback(
+    (op: Operation) => {
+      const escrowContract = getContract();
+      if (!escrowContract) throw new Error('Escrow contract not available');
+
+      return runFlow(`Reclaim operation #${op.id}`, [
+        {
+          label: `Reclaim expired operation #${op.id}`,
+          run: async () => {
+            await escrowContract.simulate.reclaimExpired([op.id], { account: address });
+            return escrowContract.write.reclaimExpired([op.id]);
+          },
+          track: (hash, confirmation) => trackPending({ kind: 'reclaim', hash, operationId: op.id }, confirmation),
+        },
+      ]);
+    },
+    [address, getContract, trackPending, runFlow]
+  );
+
+  return {
+    completeOperation,
+    fillOperation,
+    cancelOperation,
+    reclaimOperation,
+  };
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { errorMessage } from '../lib/errors';
+import type { OperationHistoryEntry } from '../lib/indexer';
+import { useOperations } from '../lib/operations';
+import { useDeployment } from './useDeployment';
+
+export interface TimelineEntry extends OperationHistoryEntry {
+  /** Unix seconds of the block the event was mined in */
+  timestamp: bigint;
+}
+
+/**
+ * Lifecycle events of one operation in chain order, with their block timestamps.
+ * The events come from the operations index; only the blocks they were mined in are fetched.
+ */
+export function useOperationTimeline(operationId: bigint) {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient({ chainId: deployment?.chainId });
+  const { history } = useOperations();
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Block timestamps never change, so each block is fetched once per chain
+  const timestampsRef = useRef(new Map<string, bigint>());
+
+  const events = history[operationId.toString()];
+
+  useEffect(() => {
+    if (!publicClient || !deployment || !events) return;
+
+    let cancelled = false;
+    const timestamps = timestampsRef.current;
+    const blockKey = (blockNumber: bigint) => `${deployment.chainId}:${blockNumber}`;
+
+    const load = async () => {
+      const missing = [...new Set(events.map((event) => event.blockNumber))].filter(
+        (blockNumber) => !timestamps.has(blockKey(blockNumber))
+      );
+      const blocks = await Promise.all(missing.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+      for (const block of blocks) timestamps.set(blockKey(block.number), block.timestamp);
+
+      return events.map((event) => ({ ...event, timestamp: timestamps.get(blockKey(event.blockNumber)) ?? 0n }));
+    };
+
+    load()
+      .then((loaded) => {
+        if (cancelled) return;
+        setEntries(loaded);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to load operation history:', err);
+        setError(errorMessage(err, 'Failed to load operation history'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [events, deployment, publicClient]);
+
+  return { entries, error };
+}
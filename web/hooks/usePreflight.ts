@@ -0,0 +1,385 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { formatTokenAmount } from '../lib/amounts';
+import { errorMessage } from '../lib/errors';
+import { nowSeconds } from '../lib/deadlines';
+import {
+  AssetType,
+  canFillAs,
+  fillAmountError,
+  isExpired,
+  Operation,
+  OperationOptions,
+  OperationStatus,
+  remainingB,
+} from '../lib/escrow';
+import { useOperations } from '../lib/operations';
+import { useTokens } from '../lib/tokens';
+import { useEscrowContract } from './useEscrowContract';
+import { useTokenApproval } from './useTokenApproval';
+import { useTokenContract } from './useTokenContract';
+
+/**
+ * Checks run before a write is offered to the user. Each check resolves to the reason the
+ * transaction would fail, or null when it should go through.
+ *
+ * Calls that still need an approval are only balance-checked: simulating them against the
+ * current allowance (or a collection the Escrow is not approved for) would always revert.
+ */
+export function usePreflight() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { getReadContract } = useEscrowContract();
+  const {
+    getReadContract: getTokenReadContract,
+    getItemReadContract,
+    getMultiTokenReadContract,
+  } = useTokenContract();
+  const { getAllowance, isCollectionApproved } = useTokenApproval();
+  const { getToken } = useTokens();
+
+  /**
+   * `tokenId` is only read for ERC721 and ERC1155 collections
+   */
+  const checkBalance = useCallback(
+    async (token: Address, needed: bigint, tokenId = 0n): Promise<string | null> => {
+      if (!address) return 'Connect your wallet first';
+      const info = getToken(token);
+      const symbol = info?.symbol ?? 'tokens';
+
+      if (info?.assetType === AssetType.ERC721) {
+        const contract = getItemReadContract(token);
+        if (!contract) return 'Connect your wallet first';
+
+        const owner = await contract.read.ownerOf([tokenId]);
+        return owner.toLowerCase() === address.toLowerCase() ? null : `You do not own ${symbol} #${tokenId}`;
+      }
+
+      if (info?.assetType === AssetType.ERC1155) {
+        const contract = getMultiTokenReadContract(token);
+        if (!contract) return 'Connect your wallet first';
+
+        const balance = await contract.read.balanceOf([address, tokenId]);
+        return balance >= needed ? null : `You hold ${balance} of ${symbol} #${tokenId}, need ${needed}`;
+      }
+
+      // ETH legs are paid from the wallet's ETH, not its WETH
+      let balance: bigint;
+      if (info?.native) {
+        if (!publicClient) return 'Connect your wallet first';
+        balance = await publicClient.getBalance({ address });
+      } else {
+        const contract = getTokenReadContract(token);
+        if (!contract) return 'Connect your wallet first';
+        balance = await contract.read.balanceOf([address]);
+      }
+      if (balance >= needed) return null;
+
+      const decimals = info?.decimals ?? 18;
+      return `You hold ${formatTokenAmount(balance, decimals, 6)} ${symbol}, need ${formatTokenAmount(needed, decimals, 6)}`;
+    },
+    [address, publicClient, getTokenReadContract, getItemReadContract, getMultiTokenReadContract, getToken]
+  );
+
+  // Whether the Escrow can already pull `amount` of a token or items of a collection. ETH is sent
+  // along with the call, so it never needs an approval.
+  const isApproved = useCallback(
+    async (token: Address, amount: bigint) => {
+      const info = getToken(token);
+      if (info?.native) return true;
+      return info?.assetType === AssetType.ERC20 ? (await getAllowance(token)) >= amount : isCollectionApproved(token);
+    },
+    [getToken, getAllowance, isCollectionApproved]
+  );
+
+  const checkAddToken = useCallback(
+    async (token?: Address, assetType = AssetType.ERC20): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+
+      try {
+        const owner = await escrow.read.owner();
+        if (owner.toLowerCase() !== address.toLowerCase()) return 'Only the owner can add tokens';
+        if (!token) return null;
+
+        if (assetType === AssetType.ERC20) {
+          await escrow.simulate.addToken([token], { account: address });
+        } else {
+          await escrow.simulate.addCollection([token, assetType], { account: address });
+        }
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Adding this token would fail');
+      }
+    },
+    [address, getReadContract]
+  );
+
+  const checkSetFee = useCallback(
+    async (feeBps?: bigint): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+
+      try {
+        const owner = await escrow.read.owner();
+        if (owner.toLowerCase() !== address.toLowerCase()) return 'Only the owner can change the fee';
+        if (feeBps === undefined) return null;
+
+        await escrow.simulate.setFee([feeBps], { account: address });
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Changing the fee would fail');
+      }
+    },
+    [address, getReadContract]
+  );
+
+  const checkSetFeeRecipient = useCallback(
+    async (recipient?: Address): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+
+      try {
+        const owner = await escrow.read.owner();
+        if (owner.toLowerCase() !== address.toLowerCase()) return 'Only the owner can change the fee recipient';
+        if (!recipient) return null;
+
+        await escrow.simulate.setFeeRecipient([recipient], { account: address });
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Changing the fee recipient would fail');
+      }
+    },
+    [address, getReadContract]
+  );
+
+  const checkRemoveToken = useCallback(
+    async (token: Address, completable: boolean): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+
+      try {
+        const owner = await escrow.read.owner();
+        if (owner.toLowerCase() !== address.toLowerCase()) return 'Only the owner can delist tokens';
+
+        await escrow.simulate.removeToken([token, completable], { account: address });
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Delisting this token would fail');
+      }
+    },
+    [address, getReadContract]
+  );
+
+  const checkSetPaused = useCallback(
+    async (paused: boolean): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+
+      try {
+        const owner = await escrow.read.owner();
+        if (owner.toLowerCase() !== address.toLowerCase()) return 'Only the owner can pause the escrow';
+
+        if (paused) {
+          await escrow.simulate.pause({ account: address });
+        } else {
+          await escrow.simulate.unpause({ account: address });
+        }
+        return null;
+      } catch (error) {
+        return errorMessage(error, paused ? 'Pausing would fail' : 'Resuming would fail');
+      }
+    },
+    [address, getReadContract]
+  );
+
+  const checkTransferOwnership = useCallback(
+    async (newOwner?: Address): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+
+      try {
+        const owner = await escrow.read.owner();
+        if (owner.toLowerCase() !== address.toLowerCase()) return 'Only the owner can transfer ownership';
+        if (!newOwner) return null;
+        if (newOwner.toLowerCase() === owner.toLowerCase()) return 'This address already owns the escrow';
+
+        await escrow.simulate.transferOwnership([newOwner], { account: address });
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Transferring ownership would fail');
+      }
+    },
+    [address, getReadContract]
+  );
+
+  const checkAcceptOwnership = useCallback(async (): Promise<string | null> => {
+    const escrow = getReadContract();
+    if (!escrow || !address) return 'Connect your wallet first';
+
+    try {
+      const pendingOwner = await escrow.read.pendingOwner();
+      if (pendingOwner.toLowerCase() !== address.toLowerCase()) return 'Ownership has not been offered to you';
+
+      await escrow.simulate.acceptOwnership({ account: address });
+      return null;
+    } catch (error) {
+      return errorMessage(error, 'Accepting ownership would fail');
+    }
+  }, [address, getReadContract]);
+
+  const checkCreate = useCallback(
+    async (
+      tokenA: Address,
+      tokenB: Address,
+      amountA: bigint,
+      amountB: bigint,
+      options: OperationOptions
+    ): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+      if (options.deadline !== 0n && options.deadline <= nowSeconds()) {
+        return 'The deadline must be in the future';
+      }
+      if (options.minFill > amountB) return 'The minimum fill cannot exceed the requested amount';
+      if (options.counterparty.toLowerCase() === address.toLowerCase()) {
+        return 'You cannot restrict the operation to yourself';
+      }
+
+      try {
+        const balanceReason = await checkBalance(tokenA, amountA, options.tokenIdA);
+        if (balanceReason) return balanceReason;
+        if (!(await isApproved(tokenA, amountA))) return null;
+
+        await escrow.simulate.createOperation([tokenA, tokenB, amountA, amountB, options], {
+          account: address,
+          value: getToken(tokenA)?.native ? amountA : undefined,
+        });
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Creating this operation would fail');
+      }
+    },
+    [address, getReadContract, checkBalance, isApproved, getToken]
+  );
+
+  const checkFill = useCallback(
+    async (op: Operation, amountB: bigint): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+      if (op.status !== OperationStatus.Active) return 'This operation is no longer active';
+      if (op.creator.toLowerCase() === address.toLowerCase()) return 'You cannot complete your own operation';
+      if (!canFillAs(op, address)) return 'This operation is reserved for another address';
+      if (isExpired(op, nowSeconds())) return 'This operation has expired';
+
+      const amountReason = fillAmountError(op, amountB);
+      if (amountReason) return amountReason;
+
+      try {
+        const balanceReason = await checkBalance(op.tokenB, amountB, op.tokenIdB);
+        if (balanceReason) return balanceReason;
+        if (!(await isApproved(op.tokenB, amountB))) return null;
+
+        const value = getToken(op.tokenB)?.native ? amountB : undefined;
+        if (amountB === remainingB(op)) {
+          await escrow.simulate.completeOperation([op.id], { account: address, value });
+        } else {
+          await escrow.simulate.fillOperation([op.id, amountB], { account: address, value });
+        }
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Filling this operation would fail');
+      }
+    },
+    [address, getReadContract, checkBalance, isApproved, getToken]
+  );
+
+  const checkComplete = useCallback((op: Operation) => checkFill(op, remainingB(op)), [checkFill]);
+
+  const checkCancel = useCallback(
+    async (op: Operation): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+      if (op.status !== OperationStatus.Active) return 'This operation is no longer active';
+      if (op.creator.toLowerCase() !== address.toLowerCase()) return 'Only the creator can cancel';
+
+      try {
+        await escrow.simulate.cancelOperation([op.id], { account: address });
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Cancelling this operation would fail');
+      }
+    },
+    [address, getReadContract]
+  );
+
+  const checkReclaim = useCallback(
+    async (op: Operation): Promise<string | null> => {
+      const escrow = getReadContract();
+      if (!escrow || !address) return 'Connect your wallet first';
+      if (op.status !== OperationStatus.Active) return 'This operation is no longer active';
+      if (!isExpired(op, nowSeconds())) return 'This operation has not expired yet';
+
+      try {
+        await escrow.simulate.reclaimExpired([op.id], { account: address });
+        return null;
+      } catch (error) {
+        return errorMessage(error, 'Reclaiming this operation would fail');
+      }
+    },
+    [address, getReadContract]
+  );
+
+  return {
+    checkBalance,
+    checkAddToken,
+    checkSetFee,
+    checkSetFeeRecipient,
+    checkRemoveToken,
+    checkSetPaused,
+    checkTransferOwnership,
+    checkAcceptOwnership,
+    checkCreate,
+    checkComplete,
+    checkFill,
+    checkCancel,
+    checkReclaim,
+  };
+}
+
+// Typing in an amount field should not fire a simulation per keystroke
+const CHECK_DEBOUNCE_MS = 300;
+
+/**
+ * Run a preflight check whenever it changes or a new block is indexed.
+ * Pass null to skip checking (e.g. while the form is incomplete).
+ */
+export function usePreflightReason(check: (() => Promise<string | null>) | null) {
+  const { lastSyncedBlock } = useOperations();
+  const [reason, setReason] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (!check) {
+      setReason(null);
+      setIsChecking(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsChecking(true);
+    const timer = setTimeout(() => {
+      check()
+        .then((result) => !cancelled && setReason(result))
+        .finally(() => !cancelled && setIsChecking(false));
+    }, CHECK_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [check, lastSyncedBlock]);
+
+  return { reason, isChecking };
+}
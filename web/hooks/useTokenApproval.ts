@@ -0,0 +1,155 @@
+import { useCallback, useRef } from 'react';
+import { useAccount, useChainId, useWalletClient } from 'wagmi';
+import { maxUint256, parseSignature } from 'viem';
+import type { Address, Hash } from 'viem';
+import { useDeployment } from './useDeployment';
+import { useTokenContract } from './useTokenContract';
+
+/**
+ * How the Escrow gets its allowance when the current one does not cover the amount:
+ * - permit: sign an EIP-2612 permit and use the *WithPermit entry point (one transaction)
+ * - exact: approve exactly the amount needed
+ * - unlimited: approve the maximum so later operations need no approval
+ */
+export type ApprovalMode = 'permit' | 'exact' | 'unlimited';
+
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: Hash;
+  s: Hash;
+}
+
+// Permit signatures stay valid for 20 minutes
+const PERMIT_VALIDITY_SECONDS = 20n * 60n;
+
+export function useTokenApproval() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const escrowAddress = useDeployment()?.escrow.address;
+  const { data: walletClient } = useWalletClient();
+  const { getContract, getReadContract, getCollectionContract, getItemReadContract } = useTokenContract();
+  const permitSupportRef = useRef(new Map<string, boolean>());
+
+  const getAllowance = useCallback(
+    async (token: Address) => {
+      const contract = getReadContract(token);
+      if (!contract || !address || !escrowAddress) return 0n;
+      return contract.read.allowance([address, escrowAddress]);
+    },
+    [address, escrowAddress, getReadContract]
+  );
+
+  /**
+   * Whether a token implements EIP-2612 (cached per chain and token)
+   */
+  const supportsPermit = useCallback(
+    async (token: Address) => {
+      const key = `${chainId}:${token.toLowerCase()}`;
+      const cached = permitSupportRef.current.get(key);
+      if (cached !== undefined) return cached;
+
+      const contract = getReadContract(token);
+      if (!contract || !address) return false;
+
+      let supported: boolean;
+      try {
+        await Promise.all([contract.read.nonces([address]), contract.read.DOMAIN_SEPARATOR()]);
+        supported = true;
+      } catch {
+        supported = false;
+      }
+
+      permitSupportRef.current.set(key, supported);
+      return supported;
+    },
+    [address, chainId, getReadContract]
+  );
+
+  /**
+   * Send an approve transaction for `amount` (or the maximum in unlimited mode)
+   */
+  const approve = useCallback(
+    async (token: Address, amount: bigint, mode: Exclude<ApprovalMode, 'permit'>) => {
+      const contract = getContract(token);
+      if (!contract || !escrowAddress) throw new Error('Token contract not available');
+      return contract.write.approve([escrowAddress, mode === 'unlimited' ? maxUint256 : amount]);
+    },
+    [escrowAddress, getContract]
+  );
+
+  /**
+   * Ask the wallet to sign an EIP-2612 permit letting the Escrow spend `amount`
+   */
+  const signPermit = useCallback(
+    async (token: Address, amount: bigint): Promise<PermitSignature> => {
+      const contract = getReadContract(token);
+      if (!contract || !walletClient || !address || !escrowAddress) throw new Error('Wallet not connected');
+
+      const [name, nonce] = await Promise.all([contract.read.name(), contract.read.nonces([address])]);
+
+      // ERC-5267 exposes the domain version; tokens without it almost always use "1"
+      let version = '1';
+      try {
+        const domain = await contract.read.eip712Domain();
+        version = domain[2];
+      } catch {
+        // keep the default
+      }
+
+      const deadline = BigInt(Math.floor(Date.now() / 1000)) + PERMIT_VALIDITY_SECONDS;
+      const signature = await walletClient.signTypedData({
+        account: address,
+        domain: { name, version, chainId, verifyingContract: token },
+        types: {
+          Permit: [
+            { name: 'owner', type: 'address' },
+            { name: 'spender', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        primaryType: 'Permit',
+        message: { owner: address, spender: escrowAddress, value: amount, nonce, deadline },
+      });
+
+      const { r, s, v, yParity } = parseSignature(signature);
+      return { deadline, r, s, v: v !== undefined ? Number(v) : yParity + 27 };
+    },
+    [address, chainId, escrowAddress, getReadContract, walletClient]
+  );
+
+  /**
+   * Whether the Escrow may move the user's items of an ERC721 or ERC1155 collection
+   */
+  const isCollectionApproved = useCallback(
+    async (collection: Address) => {
+      const contract = getItemReadContract(collection);
+      if (!contract || !address || !escrowAddress) return false;
+      return contract.read.isApprovedForAll([address, escrowAddress]);
+    },
+    [address, escrowAddress, getItemReadContract]
+  );
+
+  /**
+   * Send a setApprovalForAll transaction: collections have no per-amount allowance
+   */
+  const approveCollection = useCallback(
+    async (collection: Address) => {
+      const contract = getCollectionContract(collection);
+      if (!contract || !escrowAddress) throw new Error('Collection contract not available');
+      return contract.write.setApprovalForAll([escrowAddress, true]);
+    },
+    [escrowAddress, getCollectionContract]
+  );
+
+  return {
+    getAllowance,
+    supportsPermit,
+    approve,
+    signPermit,
+    isCollectionApproved,
+    approveCollection,
+  };
+}
@@ -1,30 +1,72 @@
+import { useCallback } from 'react';
 import { useWalletClient, usePublicClient } from 'wagmi';
-import { Contract } from 'ethers';
-import { BrowserProvider } from 'ethers';
-import { ERC20ABI } from '../lib/contracts';
+import { getContract as getViemContract } from 'viem';
+import type { Address } from 'viem';
+import { erc20Abi, erc721Abi, erc1155Abi } from '../lib/contracts';
 
-export function useTokenContract(tokenAddress: string) {
+export function useTokenContract() {
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
 
-  const getContract = async () => {
-    if (!walletClient || !tokenAddress) return null;
+  const getContract = useCallback((tokenAddress: Address) => {
+    if (!walletClient || !publicClient || !tokenAddress) return null;
 
-    const provider = new BrowserProvider(walletClient as any);
-    const signer = await provider.getSigner();
+    return getViemContract({
+      address: tokenAddress,
+      abi: erc20Abi,
+      client: { public: publicClient, wallet: walletClient },
+    });
+  }, [publicClient, walletClient]);
 
-    return new Contract(tokenAddress, ERC20ABI, signer);
-  };
-
-  const getReadContract = async () => {
+  const getReadContract = useCallback((tokenAddress: Address) => {
     if (!publicClient || !tokenAddress) return null;
 
-    const provider = new BrowserProvider(publicClient as any);
-    return new Contract(tokenAddress, ERC20ABI, provider);
-  };
+    return getViemContract({
+      address: tokenAddress,
+      abi: erc20Abi,
+      client: publicClient,
+    });
+  }, [publicClient]);
+
+  /**
+   * An ERC721 collection. setApprovalForAll and isApprovedForAll are identical in ERC1155,
+   * so this contract also approves ERC1155 collections.
+   */
+  const getCollectionContract = useCallback((collectionAddress: Address) => {
+    if (!walletClient || !publicClient || !collectionAddress) return null;
+
+    return getViemContract({
+      address: collectionAddress,
+      abi: erc721Abi,
+      client: { public: publicClient, wallet: walletClient },
+    });
+  }, [publicClient, walletClient]);
+
+  const getItemReadContract = useCallback((collectionAddress: Address) => {
+    if (!publicClient || !collectionAddress) return null;
+
+    return getViemContract({
+      address: collectionAddress,
+      abi: erc721Abi,
+      client: publicClient,
+    });
+  }, [publicClient]);
+
+  const getMultiTokenReadContract = useCallback((collectionAddress: Address) => {
+    if (!publicClient || !collectionAddress) return null;
+
+    return getViemContract({
+      address: collectionAddress,
+      abi: erc1155Abi,
+      client: publicClient,
+    });
+  }, [publicClient]);
 
   return {
     getContract,
     getReadContract,
+    getCollectionContract,
+    getItemReadContract,
+    getMultiTokenReadContract,
   };
 }
@@ -0,0 +1,66 @@
+import { formatUnits, parseUnits } from 'viem';
+
+/**
+ * Parse a user-entered decimal string into base units.
+ * Throws with a readable message when the value is malformed or more precise than the token allows.
+ */
+export function parseTokenAmount(value: string, decimals: number): bigint {
+  const trimmed = value.trim();
+
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === '' || trimmed === '.') {
+    throw new Error('Enter a valid amount');
+  }
+
+  const fraction = trimmed.split('.')[1] ?? '';
+  if (fraction.length > decimals) {
+    throw new Error(
+      decimals === 0
+        ? 'This token does not support fractional amounts'
+        : `This token supports at most ${decimals} decimal places`
+    );
+  }
+
+  return parseUnits(trimmed, decimals);
+}
+
+/**
+ * Validate an amount input without throwing: returns an error message or null
+ */
+export function validateTokenAmount(value: string, decimals: number): string | null {
+  try {
+    if (parseTokenAmount(value, decimals) === 0n) return 'Amount must be greater than 0';
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid amount';
+  }
+}
+
+/**
+ * Format base units for display. Digits past `maxFractionDigits` are truncated, never rounded up.
+ */
+export function formatTokenAmount(amount: bigint, decimals: number, maxFractionDigits = decimals): string {
+  const [whole, fraction = ''] = formatUnits(amount, decimals).split('.');
+  const shown = fraction.slice(0, maxFractionDigits).replace(/0+$/, '');
+  return shown ? `${whole}.${shown}` : whole;
+}
+
+/**
+ * Convert base units to a float, for ratios and sorting only (never for amounts sent on-chain)
+ */
+export function toDecimalNumber(amount: bigint, decimals: number): number {
+  return Number(formatUnits(amount, decimals));
+}
+
+/**
+ * Format an exchange rate with six significant digits
+ */
+export function formatRate(rate: number): string {
+  return rate.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+}
+
+/**
+ * Smallest step an amount input should allow for a token
+ */
+export function inputStep(decimals: number): string {
+  return decimals === 0 ? '1' : `0.${'0'.repeat(decimals - 1)}1`;
+}
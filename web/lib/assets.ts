@@ -0,0 +1,30 @@
+import { formatTokenAmount } from './amounts';
+import { AssetType } from './escrow';
+import type { TokenMetadata } from './tokens';
+
+export const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  [AssetType.ERC20]: 'Token (ERC20)',
+  [AssetType.ERC721]: 'NFT (ERC721)',
+  [AssetType.ERC1155]: 'Multi-token (ERC1155)',
+};
+
+/**
+ * Whether an asset type is an NFT collection rather than a fungible ERC20
+ */
+export function isCollection(assetType: AssetType): boolean {
+  return assetType !== AssetType.ERC20;
+}
+
+/**
+ * One side of an operation for display: "100 TKA", "ITEM #3" or "5 × MULTI #1"
+ */
+export function formatLeg(token: TokenMetadata, amount: bigint, tokenId: bigint): string {
+  switch (token.assetType) {
+    case AssetType.ERC721:
+      return `${token.symbol} #${tokenId}`;
+    case AssetType.ERC1155:
+      return `${amount} × ${token.symbol} #${tokenId}`;
+    default:
+      return `${formatTokenAmount(amount, token.decimals)} ${token.symbol}`;
+  }
+}
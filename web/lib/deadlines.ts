@@ -0,0 +1,46 @@
+/**
+ * Expiry choices offered when creating an operation, in seconds from now (null = never expires)
+ */
+export const DEADLINE_PRESETS = [
+  { label: 'Never expires', seconds: null },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+] as const;
+
+/**
+ * Current time as unix seconds, the unit Escrow deadlines use
+ */
+export function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Parse a `datetime-local` input value into unix seconds, or null when it is empty or invalid
+ */
+export function parseDeadlineInput(value: string): bigint | null {
+  const time = new Date(value).getTime();
+  return value && !Number.isNaN(time) ? BigInt(Math.floor(time / 1000)) : null;
+}
+
+/**
+ * Compact countdown such as "2d 4h", "3h 12m" or "45s"
+ */
+export function formatCountdown(seconds: bigint): string {
+  const total = Number(seconds > 0n ? seconds : 0n);
+  const days = Math.floor(total / 86_400);
+  const hours = Math.floor((total % 86_400) / 3_600);
+  const minutes = Math.floor((total % 3_600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${total % 60}s`;
+  return `${total}s`;
+}
+
+/**
+ * Deadline as a local date and time
+ */
+export function formatDeadline(deadline: bigint): string {
+  return new Date(Number(deadline) * 1000).toLocaleString();
+}
@@ -0,0 +1,23 @@
+// Generated by scripts/deploy.ts. Do not edit by hand.
+
+import type { DeploymentManifest } from './deployments';
+
+export const deploymentManifest: DeploymentManifest = {
+  "31337": {
+    "chainId": 31337,
+    "name": "Anvil Local",
+    "rpcUrl": "http://127.0.0.1:8545",
+    "escrow": {
+      "address": "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+      "deployBlock": 1n,
+      "abiVersion": "eb34c61d25ec"
+    },
+    "tokens": {
+      "TKA": "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0",
+      "TKB": "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9",
+      "WETH": "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+      "ITEM": "0xa513E6E4b8f2a923D98304ec87F64353C4D5C853",
+      "MULTI": "0x2279B7A0a67DB372996a5FaB50D91eAA73d2eBe6"
+    }
+  }
+};
@@ -0,0 +1,48 @@
+import type { Address } from 'viem';
+import { escrowAbiVersion } from './abi/escrow';
+import { deploymentManifest } from './deployments.generated';
+
+/**
+ * An Escrow deployment on one chain, as recorded by scripts/deploy.ts
+ */
+export interface Deployment {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  escrow: {
+    address: Address;
+    /** First block the operations indexer scans for Escrow events */
+    deployBlock: bigint;
+    /** Hash of the ABI the contract was deployed with */
+    abiVersion: string;
+  };
+  /** Mock tokens and NFT collections deployed alongside the Escrow, keyed by symbol */
+  tokens: Record<string, Address>;
+}
+
+/**
+ * Deployments keyed by chainId
+ */
+export type DeploymentManifest = Record<number, Deployment>;
+
+export const DEPLOYMENTS: readonly Deployment[] = Object.values(deploymentManifest).sort(
+  (a, b) => a.chainId - b.chainId
+);
+
+if (DEPLOYMENTS.length === 0) {
+  throw new Error('lib/deployments.generated.ts has no deployments. Run npm run deploy first.');
+}
+
+/**
+ * The deployment on `chainId`, or null when the Escrow is not deployed there
+ */
+export function getDeployment(chainId: number | undefined): Deployment | null {
+  return DEPLOYMENTS.find((deployment) => deployment.chainId === chainId) ?? null;
+}
+
+/**
+ * Whether a deployment was made from the same Escrow ABI this build was compiled against
+ */
+export function isAbiCurrent(deployment: Deployment): boolean {
+  return deployment.escrow.abiVersion === escrowAbiVersion;
+}
@@ -0,0 +1,267 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  formatEther,
+} from 'viem';
+import type { Hex } from 'viem';
+import { erc1155Abi, erc20Abi, erc721Abi, escrowAbi } from './contracts';
+import { formatDeadline } from './deadlines';
+import { AssetType, formatBps, OperationStatus } from './escrow';
+
+export type ErrorKind =
+  | 'rejected'
+  | 'escrow'
+  | 'token-transfer'
+  | 'insufficient-balance'
+  | 'insufficient-allowance'
+  | 'unknown';
+
+export interface DescribedError {
+  kind: ErrorKind;
+  message: string;
+  /** Custom error name when the revert data could be decoded */
+  errorName?: string;
+}
+
+// Escrow reverts bubble up token and collection errors unchanged, so decode against all their ABIs
+const revertAbi = [...escrowAbi, ...erc20Abi, ...erc721Abi, ...erc1155Abi].filter((item) => item.type === 'error');
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+function describeRevert(errorName: string, args: readonly unknown[]): DescribedError | null {
+  // Decoded args are typed by the ABI, but the error name is only known at runtime, so narrow each one
+  const uint = (index: number): bigint => {
+    const value = args[index];
+    if (typeof value === 'bigint') return value;
+    return typeof value === 'number' ? BigInt(value) : 0n;
+  };
+  // uint8 enums decode as numbers
+  const enumValue = (index: number): number => Number(uint(index));
+  const addr = (index: number): string => {
+    const value = args[index];
+    return typeof value === 'string' ? shortAddress(value) : 'an unknown address';
+  };
+
+  switch (errorName) {
+    case 'InvalidTokenAddress':
+      return { kind: 'escrow', errorName, message: 'The token address cannot be the zero address' };
+    case 'TokenAlreadyAllowed':
+      return { kind: 'escrow', errorName, message: `Token ${addr(0)} is already allowed` };
+    case 'TokenNotAllowed':
+      return { kind: 'escrow', errorName, message: `Token ${addr(0)} is not allowed by the escrow` };
+    case 'TokenFrozen':
+      return {
+        kind: 'escrow',
+        errorName,
+        message: `Token ${addr(0)} was delisted and its operations can no longer be filled`,
+      };
+    case 'InvalidAssetType':
+      if (enumValue(1) === AssetType.ERC20) {
+        return {
+          kind: 'escrow',
+          errorName,
+          message: `${addr(0)} is an NFT collection: add it as one, with its original asset type`,
+        };
+      }
+      return {
+        kind: 'escrow',
+        errorName,
+        message: `${addr(0)} is not an ${AssetType[enumValue(1)] ?? 'unknown'} collection`,
+      };
+    case 'InvalidItemAmount':
+      return { kind: 'escrow', errorName, message: 'An ERC721 leg must be exactly one item' };
+    case 'PartialFillUnsupported':
+      return { kind: 'escrow', errorName, message: 'Operations with an ERC721 leg can only be filled in full' };
+    case 'IdenticalTokens':
+      return { kind: 'escrow', errorName, message: 'Token A and Token B must be different' };
+    case 'ZeroAmount':
+      return { kind: 'escrow', errorName, message: 'Amounts must be greater than zero' };
+    case 'OperationNotFound':
+      return { kind: 'escrow', errorName, message: `Operation #${uint(0)} does not exist` };
+    case 'OperationNotActive':
+      return {
+        kind: 'escrow',
+        errorName,
+        message: `Operation #${uint(0)} is no longer active (${OperationStatus[enumValue(1)] ?? 'unknown status'})`,
+      };
+    case 'CreatorCannotComplete':
+      return {
+        kind: 'escrow',
+        errorName,
+        message: `You created operation #${uint(0)} and cannot complete it yourself`,
+      };
+    case 'OnlyCreator':
+      return { kind: 'escrow', errorName, message: `Only the creator can cancel operation #${uint(0)}` };
+    case 'InvalidDeadline':
+      return { kind: 'escrow', errorName, message: 'The deadline must be in the future' };
+    case 'OperationExpired':
+      return { kind: 'escrow', errorName, message: `Operation #${uint(0)} expired at ${formatDeadline(uint(1))}` };
+    case 'OperationNotExpired':
+      return {
+        kind: 'escrow',
+        errorName,
+        message:
+          uint(1) === 0n
+            ? `Operation #${uint(0)} has no deadline and never expires`
+            : `Operation #${uint(0)} does not expire until ${formatDeadline(uint(1))}`,
+      };
+    case 'InvalidMinFill':
+      return { kind: 'escrow', errorName, message: 'The minimum fill cannot exceed the requested amount' };
+    case 'NotPartiallyFillable':
+      return { kind: 'escrow', errorName, message: `Operation #${uint(0)} can only be filled in full` };
+    case 'InvalidFillAmount':
+      return {
+        kind: 'escrow',
+        errorName,
+        message: `Invalid fill for operation #${uint(0)}: it must pay out some tokens and not exceed what is left`,
+      };
+    case 'FillBelowMinimum':
+      return { kind: 'escrow', errorName, message: `The fill is below the minimum for operation #${uint(0)}` };
+    case 'InvalidCounterparty':
+      return { kind: 'escrow', errorName, message: 'You cannot restrict an operation to yourself' };
+    case 'OnlyCounterparty':
+      return { kind: 'escrow', errorName, message: `Operation #${uint(0)} is reserved for another address` };
+    case 'FeeTooHigh':
+      return { kind: 'escrow', errorName, message: `The fee cannot exceed ${formatBps(uint(1))}` };
+    case 'InvalidFeeRecipient':
+      return { kind: 'escrow', errorName, message: 'The fee recipient cannot be the zero address' };
+    case 'PermitFailed':
+      return {
+        kind: 'insufficient-allowance',
+        errorName,
+        message: `The permit for ${addr(0)} was rejected and no allowance is in place`,
+      };
+    case 'TokenBShortfall':
+      return {
+        kind: 'escrow',
+        errorName,
+        message: 'Token B charges a transfer fee, so the creator would receive less than they asked for',
+      };
+    case 'NativeNotAccepted':
+      return {
+        kind: 'escrow',
+        errorName,
+        message: `ETH cannot be sent for ${addr(0)}, only for ETH legs`,
+      };
+    case 'InvalidNativeAmount':
+      return {
+        kind: 'escrow',
+        errorName,
+        message: `Sent ${formatEther(uint(0))} ETH, but this leg needs exactly ${formatEther(uint(1))} ETH`,
+      };
+    case 'UnexpectedNativeTransfer':
+      return { kind: 'escrow', errorName, message: 'The escrow only accepts ETH as part of an operation' };
+    case 'EnforcedPause':
+      return { kind: 'escrow', errorName, message: 'The escrow is paused: operations cannot be created or filled' };
+    case 'ExpectedPause':
+      return { kind: 'escrow', errorName, message: 'The escrow is not paused' };
+    case 'OwnableUnauthorizedAccount':
+      return { kind: 'escrow', errorName, message: 'Only the escrow owner can do this' };
+    case 'SafeERC20FailedOperation':
+      return {
+        kind: 'token-transfer',
+        errorName,
+        message: `Token ${addr(0)} rejected the transfer (non-standard or paused token)`,
+      };
+    case 'ERC20InsufficientBalance':
+      return { kind: 'insufficient-balance', errorName, message: 'Insufficient token balance for this transfer' };
+    case 'ERC20InsufficientAllowance':
+      return {
+        kind: 'insufficient-allowance',
+        errorName,
+        message: 'The escrow is not approved to spend enough tokens',
+      };
+    case 'ERC721NonexistentToken':
+      return { kind: 'escrow', errorName, message: `Item #${uint(0)} does not exist` };
+    case 'ERC721IncorrectOwner':
+      return { kind: 'insufficient-balance', errorName, message: `You do not own item #${uint(1)}` };
+    case 'ERC721InsufficientApproval':
+    case 'ERC1155MissingApprovalForAll':
+      return { kind: 'insufficient-allowance', errorName, message: 'The escrow is not approved for this collection' };
+    case 'ERC1155InsufficientBalance':
+      return { kind: 'insufficient-balance', errorName, message: `Insufficient balance of token #${uint(3)}` };
+    default:
+      return null;
+  }
+}
+
+function decodeRevert(revert: ContractFunctionRevertedError): DescribedError | null {
+  if (revert.data) {
+    return describeRevert(revert.data.errorName, revert.data.args ?? []);
+  }
+
+  // The call ABI did not know the selector; retry against the token errors as well
+  if (revert.raw) {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: revertAbi, data: revert.raw as Hex });
+      return describeRevert(errorName, args ?? []);
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+// A property of a thrown value that may not be an Error at all (wallets throw plain objects)
+function errorField(error: unknown, field: string): unknown {
+  return typeof error === 'object' && error !== null && field in error
+    ? (error as Record<string, unknown>)[field]
+    : undefined;
+}
+
+function rawMessage(error: unknown): string | undefined {
+  for (const field of ['shortMessage', 'reason', 'message']) {
+    const value = errorField(error, field);
+    if (typeof value === 'string' && value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Classify a wallet, RPC or contract error and turn it into a message fit for the UI
+ */
+export function describeError(error: unknown, fallback = 'Transaction failed'): DescribedError {
+  if (error instanceof BaseError) {
+    const rejected = error.walk(
+      (cause) => cause instanceof UserRejectedRequestError || errorField(cause, 'code') === 4001
+    );
+    if (rejected) {
+      return { kind: 'rejected', message: 'Request rejected in the wallet' };
+    }
+
+    if (error.walk((cause) => cause instanceof InsufficientFundsError)) {
+      return { kind: 'insufficient-balance', message: 'Insufficient ETH to pay for gas' };
+    }
+
+    const revert = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) {
+      const decoded = decodeRevert(revert);
+      if (decoded) return decoded;
+    }
+  } else if (errorField(error, 'code') === 4001 || errorField(error, 'code') === 'ACTION_REJECTED') {
+    return { kind: 'rejected', message: 'Request rejected in the wallet' };
+  }
+
+  const message = rawMessage(error) || fallback;
+
+  // Older tokens revert with plain require strings
+  if (/exceeds balance|insufficient balance/i.test(message)) {
+    return { kind: 'insufficient-balance', message: 'Insufficient token balance for this transfer' };
+  }
+  if (/insufficient allowance|exceeds allowance/i.test(message)) {
+    return { kind: 'insufficient-allowance', message: 'The escrow is not approved to spend enough tokens' };
+  }
+
+  return { kind: 'unknown', message };
+}
+
+/**
+ * Shorthand for `describeError(error, fallback).message`
+ */
+export function errorMessage(error: unknown, fallback?: string): string {
+  return describeError(error, fallback).message;
+}
@@ -0,0 +1,218 @@
+import { parseEventLogs } from 'viem';
+import { zeroAddress } from 'viem';
+import type { Address, ContractFunctionReturnType, Log, ParseEventLogsReturnType } from 'viem';
+import { escrowAbi } from './abi/escrow';
+
+/**
+ * Mirrors `Escrow.OperationStatus` (the Solidity enum is encoded as uint8)
+ */
+export enum OperationStatus {
+  Active = 0,
+  Completed = 1,
+  Cancelled = 2,
+  /** Reclaimed after the deadline passed */
+  Expired = 3,
+}
+
+/**
+ * Mirrors `Escrow.AssetType`: what kind of asset an allowed token address is
+ */
+export enum AssetType {
+  ERC20 = 0,
+  /** A single item, identified by its token id */
+  ERC721 = 1,
+  /** An amount of one token id */
+  ERC1155 = 2,
+}
+
+/**
+ * Mirrors the `Escrow.Operation` struct
+ */
+export interface Operation {
+  id: bigint;
+  creator: Address;
+  tokenA: Address;
+  tokenB: Address;
+  amountA: bigint;
+  amountB: bigint;
+  status: OperationStatus;
+  /** Account that made the final fill */
+  completer: Address;
+  /** Unix timestamp after which the operation can no longer be completed (0n = never) */
+  deadline: bigint;
+  partiallyFillable: boolean;
+  /** Smallest tokenB fill accepted, except for the final remainder */
+  minFill: bigint;
+  /** tokenA paid out so far */
+  filledA: bigint;
+  /** tokenB received so far */
+  filledB: bigint;
+  /** Only address allowed to fill (zero address = anyone) */
+  counterparty: Address;
+  assetTypeA: AssetType;
+  assetTypeB: AssetType;
+  /** Item or token id of an ERC721/ERC1155 tokenA (0n for ERC20) */
+  tokenIdA: bigint;
+  /** Item or token id of an ERC721/ERC1155 tokenB (0n for ERC20) */
+  tokenIdB: bigint;
+}
+
+/**
+ * Mirrors `Escrow.OperationOptions`, the optional terms passed to `createOperation`
+ */
+export interface OperationOptions {
+  deadline: bigint;
+  partiallyFillable: boolean;
+  minFill: bigint;
+  counterparty: Address;
+  /** Ids of ERC721/ERC1155 legs, ignored for ERC20 */
+  tokenIdA: bigint;
+  tokenIdB: bigint;
+}
+
+type RawOperation = ContractFunctionReturnType<typeof escrowAbi, 'view', 'getOperation'>;
+
+/**
+ * Convert the tuple returned by the contract into an `Operation`
+ */
+export function toOperation(raw: RawOperation): Operation {
+  return {
+    ...raw,
+    status: raw.status as OperationStatus,
+    assetTypeA: raw.assetTypeA as AssetType,
+    assetTypeB: raw.assetTypeB as AssetType,
+  };
+}
+
+/**
+ * Whether either leg of an operation is an ERC721 item or ERC1155 token rather than an ERC20
+ */
+export function hasItemLeg(op: Operation): boolean {
+  return op.assetTypeA !== AssetType.ERC20 || op.assetTypeB !== AssetType.ERC20;
+}
+
+/**
+ * Whether an operation's deadline has passed at `now` (unix seconds)
+ */
+export function isExpired(op: Operation, now: bigint): boolean {
+  return op.deadline !== 0n && now > op.deadline;
+}
+
+/**
+ * Status to show for an operation: active operations past their deadline count as expired
+ * even before anyone reclaims them on-chain
+ */
+export function effectiveStatus(op: Operation, now: bigint): OperationStatus {
+  return op.status === OperationStatus.Active && isExpired(op, now) ? OperationStatus.Expired : op.status;
+}
+
+/**
+ * Whether only a designated counterparty may fill an operation
+ */
+export function isPrivate(op: Operation): boolean {
+  return op.counterparty !== zeroAddress;
+}
+
+/**
+ * Whether `account` is allowed to fill an operation (creator checks aside)
+ */
+export function canFillAs(op: Operation, account: Address | undefined): boolean {
+  return !isPrivate(op) || account?.toLowerCase() === op.counterparty.toLowerCase();
+}
+
+/**
+ * tokenB still needed to complete an operation
+ */
+export function remainingB(op: Operation): bigint {
+  return op.amountB - op.filledB;
+}
+
+/**
+ * tokenA a fill of `amountB` takes out of the operation, before the protocol fee: pro rata
+ * rounded down, except that taking the whole remainder pays out everything that is left
+ */
+export function fillAmountA(op: Operation, amountB: bigint): bigint {
+  if (amountB >= remainingB(op)) return op.amountA - op.filledA;
+  return (amountB * op.amountA) / op.amountB;
+}
+
+/**
+ * Denominator of fee rates expressed in basis points
+ */
+export const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Protocol fee on a tokenA payout, rounded down like `Escrow._feeOn`
+ */
+export function feeOn(amountA: bigint, feeBps: bigint): bigint {
+  return (amountA * feeBps) / BPS_DENOMINATOR;
+}
+
+/**
+ * Whether fills of an operation pay the protocol fee: ERC20 and ERC1155 amounts do,
+ * a single ERC721 item cannot be split
+ */
+export function chargesFee(op: Operation): boolean {
+  return op.assetTypeA !== AssetType.ERC721;
+}
+
+/**
+ * tokenA the filler actually receives for a fill of `amountB`, mirroring `Escrow.previewFill`
+ */
+export function netFillAmountA(op: Operation, amountB: bigint, feeBps: bigint): bigint {
+  const amountA = fillAmountA(op, amountB);
+  if (!chargesFee(op)) return amountA;
+  return amountA - feeOn(amountA, feeBps);
+}
+
+/**
+ * Basis points as a percentage, e.g. 25n -> "0.25%"
+ */
+export function formatBps(bps: bigint): string {
+  return `${Number(bps) / 100}%`;
+}
+
+/**
+ * Why a fill of `amountB` would be rejected by the contract, or null when it is acceptable
+ */
+export function fillAmountError(op: Operation, amountB: bigint): string | null {
+  const remaining = remainingB(op);
+  if (amountB <= 0n) return 'Enter an amount to fill';
+  if (amountB > remaining) return 'More than what is left to fill';
+  if (amountB < remaining) {
+    if (!op.partiallyFillable) return 'This operation must be filled in full';
+    if (amountB < op.minFill) return 'Below the minimum fill for this operation';
+  }
+  if (fillAmountA(op, amountB) === 0n) return 'Too small: you would receive nothing';
+  return null;
+}
+
+export type EscrowEventName =
+  | 'TokenAdded'
+  | 'TokenDelisted'
+  | 'OperationCreated'
+  | 'OperationAssets'
+  | 'OperationFilled'
+  | 'OperationCompleted'
+  | 'OperationCancelled'
+  | 'OperationReclaimed'
+  | 'FeeUpdated'
+  | 'FeeRecipientUpdated'
+  | 'Paused'
+  | 'Unpaused';
+
+export type EscrowEvent<TName extends EscrowEventName = EscrowEventName> = ParseEventLogsReturnType<
+  typeof escrowAbi,
+  TName,
+  true
+>[number];
+
+/**
+ * Decode raw logs emitted by the Escrow contract, skipping anything that is not an Escrow event
+ */
+export function decodeEscrowEvents<TName extends EscrowEventName>(
+  logs: Log[],
+  eventName?: TName | TName[]
+): EscrowEvent<TName>[] {
+  return parseEventLogs({ abi: escrowAbi, logs, eventName, strict: true }) as EscrowEvent<TName>[];
+}
@@ -0,0 +1,29 @@
+import { Operation, OperationStatus } from './escrow';
+
+/**
+ * Number of operations in each on-chain status
+ */
+export function countByStatus(operations: Operation[]): Record<OperationStatus, number> {
+  const counts: Record<OperationStatus, number> = {
+    [OperationStatus.Active]: 0,
+    [OperationStatus.Completed]: 0,
+    [OperationStatus.Cancelled]: 0,
+    [OperationStatus.Expired]: 0,
+  };
+  for (const op of operations) counts[op.status]++;
+  return counts;
+}
+
+/**
+ * tokenA still owed to the creators of active operations, per token (keyed by lowercase address).
+ * The escrow's balance of each token should never be below this.
+ */
+export function owedByToken(operations: Operation[]): Map<string, bigint> {
+  const owed = new Map<string, bigint>();
+  for (const op of operations) {
+    if (op.status !== OperationStatus.Active) continue;
+    const key = op.tokenA.toLowerCase();
+    owed.set(key, (owed.get(key) ?? 0n) + op.amountA - op.filledA);
+  }
+  return owed;
+}
@@ -0,0 +1,284 @@
+import type { Address, Hash, PublicClient } from 'viem';
+import { AssetType, decodeEscrowEvents, EscrowEvent, Operation, OperationStatus } from './escrow';
+
+// Maximum block range requested per eth_getLogs call
+const LOG_CHUNK_SIZE = 5_000n;
+
+// Bump whenever the snapshot shape changes so stale caches are ignored
+const SNAPSHOT_VERSION = 11;
+
+const INDEXED_EVENTS = [
+  'TokenAdded',
+  'TokenDelisted',
+  'OperationCreated',
+  'OperationAssets',
+  'OperationFilled',
+  'OperationCompleted',
+  'OperationCancelled',
+  'OperationReclaimed',
+  'FeeUpdated',
+  'FeeRecipientUpdated',
+  'Paused',
+  'Unpaused',
+] as const;
+
+type OperationEvent = EscrowEvent<
+  | 'OperationCreated'
+  | 'OperationAssets'
+  | 'OperationFilled'
+  | 'OperationCompleted'
+  | 'OperationCancelled'
+  | 'OperationReclaimed'
+>;
+
+/**
+ * Where one lifecycle event of an operation was mined
+ */
+export interface OperationHistoryEntry {
+  /** OperationAssets only completes OperationCreated, so it is left out */
+  eventName: Exclude<OperationEvent['eventName'], 'OperationAssets'>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+}
+
+/**
+ * Block windows of at most LOG_CHUNK_SIZE blocks covering `fromBlock` to `toBlock`, so no
+ * single eth_getLogs call spans a range public RPCs reject
+ */
+export function* logChunks(fromBlock: bigint, toBlock: bigint): Generator<{ fromBlock: bigint; toBlock: bigint }> {
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+    const end = start + LOG_CHUNK_SIZE - 1n < toBlock ? start + LOG_CHUNK_SIZE - 1n : toBlock;
+    yield { fromBlock: start, toBlock: end };
+  }
+}
+
+/**
+ * A token the owner delisted: no new operations, and live ones are only fillable when `completable`
+ */
+export interface DelistedToken {
+  token: Address;
+  completable: boolean;
+}
+
+/**
+ * Escrow state rebuilt from logs up to (and including) `lastBlock`
+ */
+export interface IndexerSnapshot {
+  key: string;
+  chainId: number;
+  escrowAddress: Address;
+  fromBlock: bigint;
+  lastBlock: bigint | null;
+  lastBlockHash: Hash | null;
+  allowedTokens: Address[];
+  delistedTokens: DelistedToken[];
+  /** Asset type of every token ever listed, keyed by lowercased address */
+  assetTypes: Record<string, AssetType>;
+  operations: Operation[];
+  /** Every account that filled part of an operation, keyed by operation id */
+  fillers: Record<string, Address[]>;
+  /** Lifecycle events of each operation in chain order, keyed by operation id */
+  history: Record<string, OperationHistoryEntry[]>;
+  /** Protocol fee in basis points of each tokenA payout */
+  feeBps: bigint;
+  /** null until the deployment's FeeRecipientUpdated event has been indexed */
+  feeRecipient: Address | null;
+  /** While paused no operations can be created or filled; cancelling still works */
+  paused: boolean;
+}
+
+export function snapshotKey(chainId: number, escrowAddress: Address) {
+  return `v${SNAPSHOT_VERSION}:${chainId}:${escrowAddress.toLowerCase()}`;
+}
+
+export function emptySnapshot(chainId: number, escrowAddress: Address, fromBlock: bigint): IndexerSnapshot {
+  return {
+    key: snapshotKey(chainId, escrowAddress),
+    chainId,
+    escrowAddress,
+    fromBlock,
+    lastBlock: null,
+    lastBlockHash: null,
+    allowedTokens: [],
+    delistedTokens: [],
+    assetTypes: {},
+    operations: [],
+    fillers: {},
+    history: {},
+    feeBps: 0n,
+    feeRecipient: null,
+    paused: false,
+  };
+}
+
+/**
+ * Fold a single operation event into the operations map
+ */
+export function applyOperationEvent(operations: Map<bigint, Operation>, event: OperationEvent) {
+  switch (event.eventName) {
+    case 'OperationCreated': {
+      // The event carries every term of the operation under the struct's field names
+      const { operationId, ...terms } = event.args;
+      operations.set(operationId, {
+        id: operationId,
+        ...terms,
+        status: OperationStatus.Active,
+        completer: '0x0000000000000000000000000000000000000000',
+        filledA: 0n,
+        filledB: 0n,
+        // Item legs are announced by a separate OperationAssets event
+        assetTypeA: AssetType.ERC20,
+        assetTypeB: AssetType.ERC20,
+        tokenIdA: 0n,
+        tokenIdB: 0n,
+      });
+      break;
+    }
+    case 'OperationAssets': {
+      const { operationId, assetTypeA, assetTypeB, tokenIdA, tokenIdB } = event.args;
+      const operation = operations.get(operationId);
+      if (operation) {
+        operations.set(operationId, {
+          ...operation,
+          assetTypeA: assetTypeA as AssetType,
+          assetTypeB: assetTypeB as AssetType,
+          tokenIdA,
+          tokenIdB,
+        });
+      }
+      break;
+    }
+    case 'OperationFilled': {
+      const operation = operations.get(event.args.operationId);
+      if (operation) {
+        operations.set(operation.id, {
+          ...operation,
+          filledA: operation.filledA + event.args.amountA,
+          filledB: operation.filledB + event.args.amountB,
+        });
+      }
+      break;
+    }
+    case 'OperationCompleted': {
+      const operation = operations.get(event.args.operationId);
+      if (operation) {
+        operations.set(operation.id, {
+          ...operation,
+          status: OperationStatus.Completed,
+          completer: event.args.completer,
+        });
+      }
+      break;
+    }
+    case 'OperationCancelled': {
+      const operation = operations.get(event.args.operationId);
+      if (operation) {
+        operations.set(operation.id, { ...operation, status: OperationStatus.Cancelled });
+      }
+      break;
+    }
+    case 'OperationReclaimed': {
+      const operation = operations.get(event.args.operationId);
+      if (operation) {
+        operations.set(operation.id, { ...operation, status: OperationStatus.Expired });
+      }
+      break;
+    }
+  }
+}
+
+// Returns false when the block we last synced to is no longer part of the chain
+async function isCanonical(client: PublicClient, blockNumber: bigint, blockHash: Hash, head: bigint) {
+  if (blockNumber > head) return false;
+
+  try {
+    const block = await client.getBlock({ blockNumber });
+    return block.hash === blockHash;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Bring a snapshot up to the current head.
+ * Only blocks after `lastBlock` are fetched. If the last synced block was reorged
+ * away (e.g. Anvil was restarted) the snapshot is discarded and rebuilt from `fromBlock`.
+ */
+export async function syncSnapshot(client: PublicClient, snapshot: IndexerSnapshot): Promise<IndexerSnapshot> {
+  const head = await client.getBlockNumber();
+  let current = snapshot;
+
+  if (
+    current.lastBlock !== null &&
+    current.lastBlockHash !== null &&
+    !(await isCanonical(client, current.lastBlock, current.lastBlockHash, head))
+  ) {
+    current = emptySnapshot(current.chainId, current.escrowAddress, current.fromBlock);
+  }
+
+  const startBlock = current.lastBlock === null ? current.fromBlock : current.lastBlock + 1n;
+  if (startBlock > head) return current;
+
+  let allowedTokens = [...current.allowedTokens];
+  let delistedTokens = [...current.delistedTokens];
+  const assetTypes = { ...current.assetTypes };
+  const operations = new Map(current.operations.map((op) => [op.id, op]));
+  const fillers = { ...current.fillers };
+  const history = { ...current.history };
+  let { feeBps, feeRecipient, paused } = current;
+
+  for (const { fromBlock, toBlock } of logChunks(startBlock, head)) {
+    const logs = await client.getLogs({ address: current.escrowAddress, fromBlock, toBlock });
+
+    for (const event of decodeEscrowEvents(logs, [...INDEXED_EVENTS])) {
+      if (event.eventName === 'TokenAdded') {
+        // Re-listing a delisted token moves it back
+        const { token, assetType } = event.args;
+        assetTypes[token.toLowerCase()] = assetType as AssetType;
+        delistedTokens = delistedTokens.filter((delisted) => delisted.token !== token);
+        if (!allowedTokens.includes(token)) allowedTokens.push(token);
+      } else if (event.eventName === 'TokenDelisted') {
+        const { token, completable } = event.args;
+        allowedTokens = allowedTokens.filter((allowed) => allowed !== token);
+        delistedTokens.push({ token, completable });
+      } else if (event.eventName === 'FeeUpdated') {
+        feeBps = event.args.newFeeBps;
+      } else if (event.eventName === 'FeeRecipientUpdated') {
+        feeRecipient = event.args.newRecipient;
+      } else if (event.eventName === 'Paused' || event.eventName === 'Unpaused') {
+        paused = event.eventName === 'Paused';
+      } else {
+        if (event.eventName === 'OperationFilled') {
+          // The struct only keeps the final completer, so partial fillers are collected here
+          const { operationId, filler } = event.args;
+          const known = fillers[operationId.toString()] ?? [];
+          if (!known.includes(filler)) fillers[operationId.toString()] = [...known, filler];
+        }
+        if (event.eventName !== 'OperationAssets') {
+          const id = event.args.operationId.toString();
+          const { eventName, blockNumber, logIndex, transactionHash } = event;
+          history[id] = [...(history[id] ?? []), { eventName, blockNumber, logIndex, transactionHash }];
+        }
+        applyOperationEvent(operations, event);
+      }
+    }
+  }
+
+  const headBlock = await client.getBlock({ blockNumber: head });
+
+  return {
+    ...current,
+    lastBlock: head,
+    lastBlockHash: headBlock.hash,
+    allowedTokens,
+    delistedTokens,
+    assetTypes,
+    feeBps,
+    feeRecipient,
+    paused,
+    fillers,
+    history,
+    operations: [...operations.values()].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)),
+  };
+}
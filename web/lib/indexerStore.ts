@@ -0,0 +1,64 @@
+import type { IndexerSnapshot } from './indexer';
+
+const DB_NAME = 'escrow-indexer';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+
+/**
+ * IndexedDB persistence for indexer snapshots.
+ * bigint values survive structured cloning, so operations are stored as-is.
+ * Every function degrades to a no-op where IndexedDB is unavailable (SSR, private mode).
+ */
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Failed to open indexer database:', request.error);
+      resolve(null);
+    };
+  });
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  return openDb().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        if (!db) return resolve(undefined);
+
+        const tx = db.transaction(STORE_NAME, mode);
+        const request = operation(tx.objectStore(STORE_NAME));
+        tx.oncomplete = () => {
+          db.close();
+          resolve(request.result);
+        };
+        tx.onerror = () => {
+          db.close();
+          reject(tx.error);
+        };
+      })
+  );
+}
+
+export function loadSnapshot(key: string): Promise<IndexerSnapshot | undefined> {
+  return runRequest<IndexerSnapshot>('readonly', (store) => store.get(key));
+}
+
+export async function saveSnapshot(snapshot: IndexerSnapshot): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(snapshot));
+}
+
+export async function deleteSnapshot(key: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(key));
+}
@@ -0,0 +1,95 @@
+import type { Address } from 'viem';
+import { hasItemLeg, Operation, OperationStatus } from './escrow';
+import { DecimalsOf, impliedRate } from './operationFilters';
+import { bookOperations, buildOrderBook, OrderBookLevel } from './orderBook';
+
+/**
+ * Relative deviation from the market rate above which a new offer is flagged (0.1 = 10%)
+ */
+export const RATE_WARNING_THRESHOLD = 0.1;
+
+// How many of the latest completed operations for the pair count towards the market rate
+const RECENT_COMPLETED_COUNT = 10;
+
+/**
+ * What existing operations say about the rate for offering tokenA in exchange for tokenB.
+ * All rates are whole tokenB per whole tokenA.
+ */
+export interface MarketRates {
+  /** Median rate of the active and recently completed operations for the pair */
+  reference: number | null;
+  /** Number of operations behind `reference` */
+  samples: number;
+  /**
+   * Operation whose rate a new offer should match: the cheapest competing offer of tokenA,
+   * or failing that the best price someone is paying for tokenA
+   */
+  best: OrderBookLevel | null;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Rate of an operation for the pair, in tokenB per tokenA whichever way round it was created
+function pairRate(op: Operation, tokenA: Address, decimalsOf: DecimalsOf): number {
+  const rate = impliedRate(op, decimalsOf);
+  return sameAddress(op.tokenA, tokenA) ? rate : 1 / rate;
+}
+
+/**
+ * Market rates for a new tokenA → tokenB offer, from the operations `account` could take
+ * and the latest completed ones in either direction
+ */
+export function marketRates(
+  operations: Operation[],
+  tokenA: Address,
+  tokenB: Address,
+  account: Address | undefined,
+  now: bigint,
+  decimalsOf: DecimalsOf
+): MarketRates {
+  const book = buildOrderBook(bookOperations(operations, account, now), { base: tokenA, quote: tokenB }, decimalsOf);
+  const completed = operations
+    .filter(
+      (op) =>
+        op.status === OperationStatus.Completed &&
+        !hasItemLeg(op) &&
+        ((sameAddress(op.tokenA, tokenA) && sameAddress(op.tokenB, tokenB)) ||
+          (sameAddress(op.tokenA, tokenB) && sameAddress(op.tokenB, tokenA)))
+    )
+    .sort((a, b) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+    .slice(0, RECENT_COMPLETED_COUNT);
+
+  const rates = [
+    ...book.asks.map((level) => level.price),
+    ...book.bids.map((level) => level.price),
+    ...completed.map((op) => pairRate(op, tokenA, decimalsOf)),
+  ];
+
+  return {
+    reference: median(rates),
+    samples: rates.length,
+    best: book.asks[0] ?? book.bids[0] ?? null,
+  };
+}
+
+/**
+ * How far `rate` is from `reference`, as a signed fraction (0.25 = 25% more tokenB per tokenA)
+ */
+export function rateDeviation(rate: number, reference: number): number {
+  return rate / reference - 1;
+}
+
+/**
+ * tokenB to request for `amountA` at exactly the rate of `level`'s operation, rounded down
+ */
+export function matchingAmountB(level: OrderBookLevel, tokenA: Address, amountA: bigint): bigint {
+  const { op } = level;
+  return sameAddress(op.tokenA, tokenA) ? (amountA * op.amountB) / op.amountA : (amountA * op.amountA) / op.amountB;
+}
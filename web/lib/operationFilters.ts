@@ -0,0 +1,110 @@
+import { zeroAddress } from 'viem';
+import type { Address } from 'viem';
+import { toDecimalNumber } from './amounts';
+import { effectiveStatus, Operation, OperationStatus } from './escrow';
+
+export type StatusFilter = 'all' | OperationStatus;
+
+export interface OperationFilters {
+  status: StatusFilter;
+  tokenA: Address | '';
+  tokenB: Address | '';
+  createdByMe: boolean;
+  completedByMe: boolean;
+  counterparty: string;
+}
+
+export type SortField = 'id' | 'amount' | 'rate';
+
+export interface OperationSort {
+  field: SortField;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_FILTERS: OperationFilters = {
+  status: 'all',
+  tokenA: '',
+  tokenB: '',
+  createdByMe: false,
+  completedByMe: false,
+  counterparty: '',
+};
+
+export const DEFAULT_SORT: OperationSort = { field: 'id', direction: 'desc' };
+
+// Looks up a token's decimals; unknown tokens are treated as 18-decimal
+export type DecimalsOf = (token: Address) => number;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Implied rate of an operation: whole tokenB requested per whole tokenA offered
+ */
+export function impliedRate(op: Operation, decimalsOf: DecimalsOf): number {
+  return toDecimalNumber(op.amountB, decimalsOf(op.tokenB)) / toDecimalNumber(op.amountA, decimalsOf(op.tokenA));
+}
+
+/**
+ * `fillers` lists, per operation id, everyone who filled part of it. "Completed by me" matches any of
+ * them, and the counterparty search matches the creator, fillers and the designated counterparty.
+ */
+export function filterOperations(
+  operations: Operation[],
+  filters: OperationFilters,
+  account: Address | undefined,
+  now: bigint,
+  fillers: Record<string, Address[]>
+): Operation[] {
+  const counterparty = filters.counterparty.trim().toLowerCase();
+
+  return operations.filter((op) => {
+    const filledBy = fillers[op.id.toString()] ?? [];
+    if (filters.status !== 'all' && effectiveStatus(op, now) !== filters.status) return false;
+    if (filters.tokenA && !sameAddress(op.tokenA, filters.tokenA)) return false;
+    if (filters.tokenB && !sameAddress(op.tokenB, filters.tokenB)) return false;
+    if (filters.createdByMe && (!account || !sameAddress(op.creator, account))) return false;
+    if (
+      filters.completedByMe &&
+      (!account || (!sameAddress(op.completer, account) && !filledBy.some((filler) => sameAddress(filler, account))))
+    ) {
+      return false;
+    }
+    if (
+      counterparty &&
+      ![op.creator, op.completer, op.counterparty, ...filledBy].some(
+        (party) => party !== zeroAddress && party.toLowerCase().includes(counterparty)
+      )
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+export function sortOperations(operations: Operation[], sort: OperationSort, decimalsOf: DecimalsOf): Operation[] {
+  const compare = (a: Operation, b: Operation): number => {
+    switch (sort.field) {
+      case 'amount':
+        return toDecimalNumber(a.amountA, decimalsOf(a.tokenA)) - toDecimalNumber(b.amountA, decimalsOf(b.tokenA));
+      case 'rate':
+        return impliedRate(a, decimalsOf) - impliedRate(b, decimalsOf);
+      case 'id':
+      default:
+        return a.id === b.id ? 0 : a.id < b.id ? -1 : 1;
+    }
+  };
+
+  const sorted = [...operations].sort(compare);
+  return sort.direction === 'asc' ? sorted : sorted.reverse();
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number) {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(page, 1), pageCount);
+
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount,
+  };
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { Address, Hash } from 'viem';
+import { usePublicClient } from 'wagmi';
+import { escrowAbi } from './contracts';
+import { errorMessage } from './errors';
+import type { AssetType, Operation } from './escrow';
+import {
+  DelistedToken,
+  emptySnapshot,
+  IndexerSnapshot,
+  OperationHistoryEntry,
+  snapshotKey,
+  syncSnapshot,
+} from './indexer';
+import { loadSnapshot, saveSnapshot } from './indexerStore';
+import { useDeployment } from '../hooks/useDeployment';
+
+/**
+ * A transaction of ours that has been sent but is not reflected in the index yet
+ */
+export type PendingChange =
+  | {
+      kind: 'create';
+      hash: Hash;
+      creator: Address;
+      tokenA: Address;
+      tokenB: Address;
+      amountA: bigint;
+      amountB: bigint;
+      tokenIdA: bigint;
+      tokenIdB: bigint;
+    }
+  | { kind: 'complete' | 'fill' | 'cancel' | 'reclaim'; hash: Hash; operationId: bigint };
+
+interface OperationsContextType {
+  operations: Operation[];
+  /** Accounts that filled each operation, keyed by operation id */
+  fillers: Record<string, Address[]>;
+  /** Lifecycle events of each operation, keyed by operation id */
+  history: Record<string, OperationHistoryEntry[]>;
+  allowedTokens: Address[];
+  delistedTokens: DelistedToken[];
+  /** Asset type of every listed token, keyed by lowercased address */
+  assetTypes: Record<string, AssetType>;
+  /** Protocol fee in basis points, as last indexed */
+  feeBps: bigint;
+  feeRecipient: Address | null;
+  /** Whether the owner has paused creating and filling operations */
+  paused: boolean;
+  pending: PendingChange[];
+  lastSyncedBlock: bigint | null;
+  isSyncing: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  trackPending: <T>(change: PendingChange, confirmation: Promise<T>) => Promise<T>;
+}
+
+const OperationsContext = createContext<OperationsContextType | null>(null);
+
+/**
+ * Keeps the event-sourced operation index in sync and shares it with every view.
+ * New Escrow events trigger an incremental sync, so no view has to poll or reload.
+ * Views filter and page through this index, so they never call the contract's paginated getters.
+ */
+export function OperationsProvider({ children }: { children: React.ReactNode }) {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient({ chainId: deployment?.chainId });
+  const [operations, setOperations] = useState<Operation[]>([]);
+  const [fillers, setFillers] = useState<Record<string, Address[]>>({});
+  const [history, setHistory] = useState<Record<string, OperationHistoryEntry[]>>({});
+  const [allowedTokens, setAllowedTokens] = useState<Address[]>([]);
+  const [delistedTokens, setDelistedTokens] = useState<DelistedToken[]>([]);
+  const [assetTypes, setAssetTypes] = useState<Record<string, AssetType>>({});
+  const [feeBps, setFeeBps] = useState(0n);
+  const [feeRecipient, setFeeRecipient] = useState<Address | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [pending, setPending] = useState<PendingChange[]>([]);
+  const [lastSyncedBlock, setLastSyncedBlock] = useState<bigint | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const snapshotRef = useRef<IndexerSnapshot | null>(null);
+  const inFlightRef = useRef<Promise<void> | null>(null);
+  const rerunRef = useRef(false);
+  // A running sync reads these on every round, so switching chains mid-sync is noticed
+  const deploymentRef = useRef(deployment);
+  const publicClientRef = useRef(publicClient);
+  deploymentRef.current = deployment;
+  publicClientRef.current = publicClient;
+
+  const applySnapshot = (snapshot: IndexerSnapshot) => {
+    setOperations(snapshot.operations);
+    setFillers(snapshot.fillers);
+    setHistory(snapshot.history);
+    setAllowedTokens(snapshot.allowedTokens);
+    setDelistedTokens(snapshot.delistedTokens);
+    setAssetTypes(snapshot.assetTypes);
+    setFeeBps(snapshot.feeBps);
+    setFeeRecipient(snapshot.feeRecipient);
+    setPaused(snapshot.paused);
+    setLastSyncedBlock(snapshot.lastBlock);
+  };
+
+  const currentKey = () => {
+    const current = deploymentRef.current;
+    return current ? snapshotKey(current.chainId, current.escrow.address) : null;
+  };
+
+  const refresh = useCallback(async () => {
+    if (!publicClientRef.current || !deploymentRef.current) return;
+    // A sync is already running: make it go round once more so it sees the newest blocks
+    if (inFlightRef.current) {
+      rerunRef.current = true;
+      return inFlightRef.current;
+    }
+
+    const run = async () => {
+      setIsSyncing(true);
+      setError(null);
+
+      try {
+        do {
+          rerunRef.current = false;
+
+          const deployment = deploymentRef.current;
+          const client = publicClientRef.current;
+          if (!deployment || !client) break;
+
+          const { chainId, escrow } = deployment;
+          const key = snapshotKey(chainId, escrow.address);
+          let snapshot = snapshotRef.current?.key === key ? snapshotRef.current : null;
+
+          if (!snapshot) {
+            snapshot = (await loadSnapshot(key)) ?? emptySnapshot(chainId, escrow.address, escrow.deployBlock);
+            // The user switched chains while the cache loaded: start over on the new one
+            if (currentKey() !== key) {
+              rerunRef.current = true;
+              continue;
+            }
+            // Show the cached state right away while catching up
+            applySnapshot(snapshot);
+          }
+
+          const synced = await syncSnapshot(client, snapshot);
+          // Snapshots are stored by key, so caching one for another chain is still safe
+          if (synced !== snapshot) await saveSnapshot(synced);
+
+          // Never let a previous chain's operations replace the current one's
+          if (currentKey() !== key) {
+            rerunRef.current = true;
+            continue;
+          }
+          snapshotRef.current = synced;
+          applySnapshot(synced);
+        } while (rerunRef.current);
+      } catch (err) {
+        console.error('Failed to sync operations:', err);
+        setError(errorMessage(err, 'Failed to sync operations'));
+      } finally {
+        setIsSyncing(false);
+        inFlightRef.current = null;
+      }
+    };
+
+    inFlightRef.current = run();
+    return inFlightRef.current;
+  }, []);
+
+  /**
+   * Show `change` optimistically until `confirmation` settles, then fold the result into the index
+   */
+  const trackPending = useCallback(
+    async <T,>(change: PendingChange, confirmation: Promise<T>): Promise<T> => {
+      setPending((current) => [...current, change]);
+
+      try {
+        const result = await confirmation;
+        await refresh();
+        return result;
+      } finally {
+        setPending((current) => current.filter((p) => p.hash !== change.hash));
+      }
+    },
+    [refresh]
+  );
+
+  useEffect(() => {
+    // Nothing to index on a chain without a deployment
+    if (!deployment) {
+      snapshotRef.current = null;
+      setOperations([]);
+      setFillers({});
+      setHistory({});
+      setAllowedTokens([]);
+      setDelistedTokens([]);
+      setAssetTypes({});
+      setFeeBps(0n);
+      setFeeRecipient(null);
+      setPaused(false);
+      setLastSyncedBlock(null);
+      return;
+    }
+
+    refresh();
+  }, [deployment, refresh]);
+
+  // Live subscription to every Escrow event
+  useEffect(() => {
+    if (!publicClient || !deployment) return;
+
+    return publicClient.watchContractEvent({
+      address: deployment.escrow.address,
+      abi: escrowAbi,
+      onLogs: () => {
+        refresh();
+      },
+      onError: (err) => console.error('Escrow event subscription failed:', err),
+    });
+  }, [deployment, publicClient, refresh]);
+
+  const value: OperationsContextType = {
+    operations,
+    fillers,
+    history,
+    allowedTokens,
+    delistedTokens,
+    assetTypes,
+    feeBps,
+    feeRecipient,
+    paused,
+    pending,
+    lastSyncedBlock,
+    isSyncing,
+    error,
+    refresh,
+    trackPending,
+  };
+
+  return (
+    <OperationsContext.Provider value={value}>
+      {children}
+    </OperationsContext.Provider>
+  );
+}
+
+export function useOperations() {
+  const context = useContext(OperationsContext);
+  if (!context) {
+    throw new Error('useOperations must be used within an OperationsProvider');
+  }
+  return context;
+}
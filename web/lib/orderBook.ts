@@ -0,0 +1,108 @@
+import type { Address } from 'viem';
+import { canFillAs, effectiveStatus, hasItemLeg, Operation, OperationStatus, remainingB } from './escrow';
+import { DecimalsOf, impliedRate } from './operationFilters';
+
+/**
+ * Two tokens that active operations trade against each other, in no particular direction
+ */
+export interface TokenPair {
+  base: Address;
+  quote: Address;
+}
+
+/**
+ * One operation on one side of the book
+ */
+export interface OrderBookLevel {
+  op: Operation;
+  /** Whole quote tokens per whole base token */
+  price: number;
+  /** Base tokens still available at this level */
+  size: bigint;
+  /** Base tokens available at this price or better */
+  depth: bigint;
+}
+
+export interface OrderBook extends TokenPair {
+  /** Operations offering base for quote, cheapest first */
+  asks: OrderBookLevel[];
+  /** Operations offering quote for base, highest price first */
+  bids: OrderBookLevel[];
+  bestAsk: number | null;
+  bestBid: number | null;
+  /** bestAsk - bestBid; negative when the book is crossed, null while a side is empty */
+  spread: number | null;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Operations that belong in a book: active, not expired and fillable by `account`
+ * (its own offers included). Private operations reserved for someone else are not liquidity,
+ * and NFT swaps have no meaningful price.
+ */
+export function bookOperations(operations: Operation[], account: Address | undefined, now: bigint): Operation[] {
+  return operations.filter(
+    (op) =>
+      effectiveStatus(op, now) === OperationStatus.Active &&
+      !hasItemLeg(op) &&
+      (canFillAs(op, account) || (!!account && sameAddress(op.creator, account)))
+  );
+}
+
+/**
+ * Distinct token pairs among `operations`, each listed once with its tokens in address order
+ */
+export function tokenPairs(operations: Operation[]): TokenPair[] {
+  const pairs = new Map<string, TokenPair>();
+
+  for (const op of operations) {
+    const [base, quote] =
+      op.tokenA.toLowerCase() < op.tokenB.toLowerCase() ? [op.tokenA, op.tokenB] : [op.tokenB, op.tokenA];
+    pairs.set(`${base.toLowerCase()}:${quote.toLowerCase()}`, { base, quote });
+  }
+
+  return [...pairs.values()];
+}
+
+// Running total of base size down one side of the book
+function withDepth(levels: Omit<OrderBookLevel, 'depth'>[]): OrderBookLevel[] {
+  let depth = 0n;
+  return levels.map((level) => {
+    depth += level.size;
+    return { ...level, depth };
+  });
+}
+
+/**
+ * Book for `pair` built from `operations`, which should already be narrowed with `bookOperations`.
+ * Operations offering base are asks, operations offering quote are bids; both are priced in
+ * quote per base, and partially filled operations only count what is left.
+ */
+export function buildOrderBook(operations: Operation[], pair: TokenPair, decimalsOf: DecimalsOf): OrderBook {
+  const asks = withDepth(
+    operations
+      .filter((op) => sameAddress(op.tokenA, pair.base) && sameAddress(op.tokenB, pair.quote))
+      .map((op) => ({ op, price: impliedRate(op, decimalsOf), size: op.amountA - op.filledA }))
+      .sort((a, b) => a.price - b.price)
+  );
+  const bids = withDepth(
+    operations
+      .filter((op) => sameAddress(op.tokenA, pair.quote) && sameAddress(op.tokenB, pair.base))
+      .map((op) => ({ op, price: 1 / impliedRate(op, decimalsOf), size: remainingB(op) }))
+      .sort((a, b) => b.price - a.price)
+  );
+
+  const bestAsk = asks[0]?.price ?? null;
+  const bestBid = bids[0]?.price ?? null;
+
+  return {
+    ...pair,
+    asks,
+    bids,
+    bestAsk,
+    bestBid,
+    spread: bestAsk !== null && bestBid !== null ? bestAsk - bestBid : null,
+  };
+}
+
@@ -4,6 +4,9 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { WagmiProvider } from 'wagmi';
 import { RainbowKitProvider, darkTheme } from '@rainbow-me/rainbowkit';
 import { config } from './wagmi';
+import { OperationsProvider } from './operations';
+import { TokensProvider } from './tokens';
+import { TransactionsProvider } from './transactions';
 
 import '@rainbow-me/rainbowkit/styles.css';
 
@@ -14,7 +17,11 @@ export function Providers({ children }: { children: React.ReactNode }) {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider theme={darkTheme()}>
-          {children}
+          <TransactionsProvider>
+            <OperationsProvider>
+              <TokensProvider>{children}</TokensProvider>
+            </OperationsProvider>
+          </TransactionsProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -0,0 +1,16 @@
+/**
+ * Path of the detail page of an operation
+ */
+export function operationPath(operationId: bigint): string {
+  return `/operations/${operationId}`;
+}
+
+/**
+ * Path of the order book page
+ */
+export const ORDER_BOOK_PATH = '/orderbook';
+
+/**
+ * Path of the owner's admin console
+ */
+export const ADMIN_PATH = '/admin';
@@ -0,0 +1,157 @@
+import type { Address, PublicClient } from 'viem';
+import { formatTokenAmount } from './amounts';
+import { erc20Abi } from './contracts';
+import { errorMessage } from './errors';
+
+export type ProbeStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Outcome of one pre-listing check
+ */
+export interface ProbeCheck {
+  label: string;
+  status: ProbeStatus;
+  detail: string;
+}
+
+/**
+ * What a token looks like before it is listed
+ */
+export interface TokenProbeReport {
+  token: Address;
+  checks: ProbeCheck[];
+  /** false for EOAs and empty addresses, which can never be listed usefully */
+  hasCode: boolean;
+}
+
+const METADATA_READS = ['name', 'symbol', 'decimals', 'totalSupply'] as const;
+
+/**
+ * Worst status among the checks of a report
+ */
+export function probeVerdict(report: TokenProbeReport): ProbeStatus {
+  const statuses = report.checks.map((check) => check.status);
+  return statuses.includes('fail') ? 'fail' : statuses.includes('warn') ? 'warn' : 'pass';
+}
+
+/**
+ * Check that `token` behaves like an ERC20 before it is listed: contract code exists, the
+ * metadata getters respond, and a simulated transfer of `holder`'s tokens to `recipient`
+ * neither reverts nor arrives short (a fee-on-transfer token). Nothing is sent on-chain.
+ */
+export async function probeToken(
+  client: PublicClient,
+  token: Address,
+  holder: Address,
+  recipient: Address
+): Promise<TokenProbeReport> {
+  const code = await client.getCode({ address: token });
+  if (!code || code === '0x') {
+    return {
+      token,
+      hasCode: false,
+      checks: [{ label: 'Contract code', status: 'fail', detail: 'No contract is deployed at this address' }],
+    };
+  }
+
+  const checks: ProbeCheck[] = [{ label: 'Contract code', status: 'pass', detail: `${(code.length - 2) / 2} bytes` }];
+
+  const reads = await Promise.allSettled(
+    METADATA_READS.map((functionName) => client.readContract({ address: token, abi: erc20Abi, functionName }))
+  );
+  const [, , decimalsRead] = reads;
+  const decimals = decimalsRead.status === 'fulfilled' ? Number(decimalsRead.value) : null;
+
+  METADATA_READS.forEach((functionName, index) => {
+    const read = reads[index];
+    checks.push(
+      read.status === 'fulfilled'
+        ? {
+            label: `${functionName}()`,
+            status: 'pass',
+            detail:
+              functionName === 'totalSupply' && decimals !== null
+                ? formatTokenAmount(read.value as bigint, decimals, 6)
+                : String(read.value),
+          }
+        : { label: `${functionName}()`, status: 'fail', detail: errorMessage(read.reason, 'Call reverted') }
+    );
+  });
+
+  checks.push(await probeTransfer(client, token, holder, recipient, decimals));
+
+  return { token, hasCode: true, checks };
+}
+
+// Simulate sending up to one whole token and compare what arrives with what was sent
+async function probeTransfer(
+  client: PublicClient,
+  token: Address,
+  holder: Address,
+  recipient: Address,
+  decimals: number | null
+): Promise<ProbeCheck> {
+  const label = 'Simulated transfer';
+
+  let balance: bigint;
+  try {
+    balance = await client.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [holder] });
+  } catch (error) {
+    return { label, status: 'fail', detail: errorMessage(error, 'balanceOf() reverted') };
+  }
+  if (balance === 0n) {
+    return { label, status: 'warn', detail: 'Skipped: your account holds none of this token to test with' };
+  }
+
+  const oneToken = 10n ** BigInt(decimals ?? 0);
+  const amount = balance < oneToken ? balance : oneToken;
+  const shown = decimals === null ? amount.toString() : formatTokenAmount(amount, decimals, 6);
+  const balanceCall = { to: token, abi: erc20Abi, functionName: 'balanceOf', args: [recipient] } as const;
+
+  try {
+    const { results } = await client.simulateCalls({
+      account: holder,
+      calls: [
+        balanceCall,
+        { to: token, abi: erc20Abi, functionName: 'transfer', args: [recipient, amount] },
+        balanceCall,
+      ],
+    });
+    const [before, transfer, after] = results;
+
+    if (transfer.status === 'failure') {
+      return { label, status: 'fail', detail: `Transfer reverted: ${errorMessage(transfer.error, 'unknown reason')}` };
+    }
+    if (transfer.result === false) {
+      return { label, status: 'fail', detail: 'transfer() returned false' };
+    }
+    if (before.status === 'failure' || after.status === 'failure') {
+      return { label, status: 'warn', detail: 'Transfer succeeds, but the received amount could not be measured' };
+    }
+
+    const received = after.result - before.result;
+    if (received !== amount) {
+      const taken = Number(((amount - received) * 10_000n) / amount) / 100;
+      return {
+        label,
+        status: 'warn',
+        detail: `Sent ${shown}, the escrow received ${taken}% less: this looks like a fee-on-transfer token`,
+      };
+    }
+    return { label, status: 'pass', detail: `Sent ${shown}, the escrow received exactly that` };
+  } catch {
+    // Nodes without eth_simulateV1 can still tell whether the transfer would revert
+    try {
+      await client.simulateContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [recipient, amount],
+        account: holder,
+      });
+      return { label, status: 'warn', detail: 'Transfer succeeds; this node cannot measure transfer fees' };
+    } catch (error) {
+      return { label, status: 'fail', detail: `Transfer reverted: ${errorMessage(error, 'unknown reason')}` };
+    }
+  }
+}
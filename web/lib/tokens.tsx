@@ -0,0 +1,193 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { zeroAddress } from 'viem';
+import type { Address } from 'viem';
+import { useChainId } from 'wagmi';
+import { useEscrowContract } from '../hooks/useEscrowContract';
+import { useTokenContract } from '../hooks/useTokenContract';
+import { AssetType } from './escrow';
+import { useOperations } from './operations';
+
+/**
+ * On-chain metadata of an allowed token or collection, loaded once per address and chain
+ */
+export interface TokenMetadata {
+  address: Address;
+  symbol: string;
+  name: string;
+  /** Always 0 for ERC721 and ERC1155 collections, whose amounts are whole items */
+  decimals: number;
+  assetType: AssetType;
+  /**
+   * The escrow's WETH token, shown as ETH: deposits into it are paid in ETH and
+   * payouts of it arrive as ETH
+   */
+  native: boolean;
+}
+
+/**
+ * Metadata of a delisted token, with whether its live operations can still be filled
+ */
+export interface DelistedTokenMetadata extends TokenMetadata {
+  completable: boolean;
+}
+
+interface TokensContextType {
+  /** Allowed tokens, the only ones new operations can use */
+  tokens: TokenMetadata[];
+  delistedTokens: DelistedTokenMetadata[];
+  /** Looks up allowed and delisted tokens alike */
+  getToken: (address: Address) => TokenMetadata | undefined;
+  /** Token the escrow wraps ETH into, null when the deployment has none */
+  wethAddress: Address | null;
+  isLoading: boolean;
+}
+
+const TokensContext = createContext<TokensContextType | null>(null);
+
+const cacheKey = (chainId: number, address: Address) => `${chainId}:${address.toLowerCase()}`;
+
+const shortAddress = (address: Address) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+/**
+ * Loads metadata for every allowed and delisted token and keeps it cached for the session
+ */
+export function TokensProvider({ children }: { children: React.ReactNode }) {
+  const chainId = useChainId();
+  const { allowedTokens, delistedTokens: delisted, assetTypes } = useOperations();
+  const { getReadContract } = useTokenContract();
+  const { getReadContract: getEscrowReadContract } = useEscrowContract();
+  const [wethAddress, setWethAddress] = useState<Address | null>(null);
+  const [tokens, setTokens] = useState<TokenMetadata[]>([]);
+  const [delistedTokens, setDelistedTokens] = useState<DelistedTokenMetadata[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const cacheRef = useRef(new Map<string, TokenMetadata>());
+
+  // weth is immutable, so one read per deployment is enough
+  useEffect(() => {
+    setWethAddress(null);
+    const escrow = getEscrowReadContract();
+    if (!escrow) return;
+
+    let cancelled = false;
+    escrow.read
+      .weth()
+      .then((weth) => !cancelled && setWethAddress(weth === zeroAddress ? null : weth))
+      .catch((error) => console.error('Failed to read the escrow WETH address:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getEscrowReadContract]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTokens = async () => {
+      const known = [...allowedTokens, ...delisted.map(({ token }) => token)];
+      const missing = known.filter((address) => !cacheRef.current.has(cacheKey(chainId, address)));
+
+      if (missing.length > 0) {
+        setIsLoading(true);
+
+        await Promise.all(
+          missing.map(async (address) => {
+            const token = getReadContract(address);
+            if (!token) return;
+
+            const assetType = assetTypes[address.toLowerCase()] ?? AssetType.ERC20;
+            try {
+              if (assetType === AssetType.ERC20) {
+                const [symbol, name, decimals] = await Promise.all([
+                  token.read.symbol(),
+                  token.read.name(),
+                  token.read.decimals(),
+                ]);
+                cacheRef.current.set(cacheKey(chainId, address), {
+                  address,
+                  symbol,
+                  name,
+                  decimals,
+                  assetType,
+                  native: false,
+                });
+                return;
+              }
+
+              // name() and symbol() are optional for ERC1155, so fall back to the address
+              const [symbol, name] = await Promise.all([
+                token.read.symbol().catch(() => shortAddress(address)),
+                token.read.name().catch(() => shortAddress(address)),
+              ]);
+              cacheRef.current.set(cacheKey(chainId, address), {
+                address,
+                symbol,
+                name,
+                decimals: 0,
+                assetType,
+                native: false,
+              });
+            } catch (error) {
+              console.error(`Failed to load token metadata for ${address}:`, error);
+            }
+          })
+        );
+
+        if (!cancelled) setIsLoading(false);
+      }
+
+      // Present the WETH token as ETH, since that is what its users pay and receive
+      const lookup = (address: Address) => {
+        const metadata = cacheRef.current.get(cacheKey(chainId, address));
+        if (!metadata || !wethAddress || address.toLowerCase() !== wethAddress.toLowerCase()) return metadata;
+        return { ...metadata, symbol: 'ETH', name: 'Ether', native: true };
+      };
+
+      if (!cancelled) {
+        setTokens(allowedTokens.map(lookup).filter((token): token is TokenMetadata => token !== undefined));
+        setDelistedTokens(
+          delisted.flatMap(({ token, completable }) => {
+            const metadata = lookup(token);
+            return metadata ? [{ ...metadata, completable }] : [];
+          })
+        );
+      }
+    };
+
+    loadTokens();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, allowedTokens, delisted, assetTypes, wethAddress, getReadContract]);
+
+  const getToken = useCallback(
+    (address: Address) =>
+      [...tokens, ...delistedTokens].find((token) => token.address.toLowerCase() === address.toLowerCase()),
+    [tokens, delistedTokens]
+  );
+
+  const value: TokensContextType = {
+    tokens,
+    delistedTokens,
+    getToken,
+    wethAddress,
+    isLoading,
+  };
+
+  return (
+    <TokensContext.Provider value={value}>
+      {children}
+    </TokensContext.Provider>
+  );
+}
+
+export function useTokens() {
+  const context = useContext(TokensContext);
+  if (!context) {
+    throw new Error('useTokens must be used within a TokensProvider');
+  }
+  return context;
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { Address, Hash, TransactionReceipt } from 'viem';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { errorMessage } from './errors';
+
+export type StepStatus = 'waiting' | 'awaiting-signature' | 'pending' | 'confirmed' | 'failed';
+export type FlowStatus = 'queued' | 'running' | 'confirmed' | 'failed';
+
+export interface TransactionStep {
+  label: string;
+  kind: 'transaction' | 'signature';
+  status: StepStatus;
+  hash?: Hash;
+  // Stored as a decimal string so the history survives JSON serialization
+  gasUsed?: string;
+  error?: string;
+}
+
+export interface TransactionFlow {
+  id: string;
+  title: string;
+  account: Address;
+  chainId: number;
+  createdAt: number;
+  status: FlowStatus;
+  steps: TransactionStep[];
+  error?: string;
+}
+
+/**
+ * One step of a flow. Transaction steps return the hash of the transaction they sent;
+ * signature steps (e.g. an EIP-2612 permit) return nothing and are done once signed.
+ */
+export interface FlowStepDefinition {
+  label: string;
+  kind?: 'transaction' | 'signature';
+  run: () => Promise<Hash | void>;
+  // Optional hook around the confirmation, e.g. to show an optimistic row until it settles
+  track?: (hash: Hash, confirmation: Promise<TransactionReceipt>) => Promise<unknown>;
+}
+
+export interface Toast {
+  id: string;
+  type: 'info' | 'success' | 'error';
+  text: string;
+}
+
+interface TransactionsContextType {
+  flows: TransactionFlow[];
+  toasts: Toast[];
+  runFlow: (title: string, steps: FlowStepDefinition[]) => { id: string | null; result: Promise<boolean> };
+  notify: (type: Toast['type'], text: string) => void;
+  dismissToast: (id: string) => void;
+  clearHistory: () => void;
+}
+
+const TransactionsContext = createContext<TransactionsContextType | null>(null);
+
+const HISTORY_LIMIT = 50;
+const TOAST_DURATION_MS = 6000;
+
+const historyKey = (chainId: number, account: Address) => `escrow-tx-history:${chainId}:${account.toLowerCase()}`;
+
+function loadHistory(chainId: number, account: Address): TransactionFlow[] {
+  try {
+    const stored = localStorage.getItem(historyKey(chainId, account));
+    const flows = stored ? (JSON.parse(stored) as TransactionFlow[]) : [];
+
+    // Flows that were still running when the page closed can no longer be followed
+    return flows.map((flow) =>
+      flow.status === 'queued' || flow.status === 'running'
+        ? { ...flow, status: 'failed', error: 'Interrupted: the page was closed before the flow finished' }
+        : flow
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Runs multi-step transaction flows one at a time, tracks every step,
+ * raises toasts and keeps a per-account, per-chain history in local storage
+ */
+export function TransactionsProvider({ children }: { children: React.ReactNode }) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  // Flows are kept together with the storage key they belong to, so switching
+  // account never writes one account's history under another's key
+  const [history, setHistory] = useState<{ key: string | null; flows: TransactionFlow[] }>({ key: null, flows: [] });
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const counterRef = useRef(0);
+
+  const nextId = () => `${Date.now()}-${counterRef.current++}`;
+
+  useEffect(() => {
+    setHistory(
+      address
+        ? { key: historyKey(chainId, address), flows: loadHistory(chainId, address) }
+        : { key: null, flows: [] }
+    );
+  }, [address, chainId]);
+
+  useEffect(() => {
+    if (history.key) localStorage.setItem(history.key, JSON.stringify(history.flows.slice(0, HISTORY_LIMIT)));
+  }, [history]);
+
+  const setFlows = (update: (flows: TransactionFlow[]) => TransactionFlow[]) => {
+    setHistory((current) => ({ ...current, flows: update(current.flows) }));
+  };
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const notify = useCallback(
+    (type: Toast['type'], text: string) => {
+      const id = nextId();
+      setToasts((current) => [...current, { id, type, text }]);
+      setTimeout(() => dismissToast(id), TOAST_DURATION_MS);
+    },
+    [dismissToast]
+  );
+
+  const updateFlow = (id: string, update: (flow: TransactionFlow) => TransactionFlow) => {
+    setFlows((current) => current.map((flow) => (flow.id === id ? update(flow) : flow)));
+  };
+
+  const updateStep = (id: string, index: number, changes: Partial<TransactionStep>) => {
+    updateFlow(id, (flow) => ({
+      ...flow,
+      steps: flow.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    }));
+  };
+
+  const runFlow = useCallback(
+    (title: string, steps: FlowStepDefinition[]) => {
+      if (!address || !publicClient) {
+        notify('error', 'Please connect your wallet first');
+        return { id: null, result: Promise.resolve(false) };
+      }
+
+      const id = nextId();
+      setFlows((current) => [
+        {
+          id,
+          title,
+          account: address,
+          chainId,
+          createdAt: Date.now(),
+          status: 'queued',
+          steps: steps.map((step) => ({ label: step.label, kind: step.kind ?? 'transaction', status: 'waiting' })),
+        },
+        ...current,
+      ]);
+
+      const execute = async () => {
+        updateFlow(id, (flow) => ({ ...flow, status: 'running' }));
+
+        for (const [index, step] of steps.entries()) {
+          try {
+            updateStep(id, index, { status: 'awaiting-signature' });
+            const hash = await step.run();
+
+            if (!hash) {
+              updateStep(id, index, { status: 'confirmed' });
+              continue;
+            }
+
+            updateStep(id, index, { status: 'pending', hash });
+            notify('info', `${step.label} submitted`);
+
+            const confirmation = publicClient.waitForTransactionReceipt({ hash }).then((receipt) => {
+              if (receipt.status !== 'success') throw new Error(`${step.label} reverted`);
+              return receipt;
+            });
+            const [receipt] = await Promise.all([confirmation, step.track?.(hash, confirmation)]);
+
+            updateStep(id, index, { status: 'confirmed', gasUsed: receipt.gasUsed.toString() });
+          } catch (error) {
+            console.error(`${title} failed at "${step.label}":`, error);
+            const text = errorMessage(error);
+            updateStep(id, index, { status: 'failed', error: text });
+            updateFlow(id, (flow) => ({ ...flow, status: 'failed', error: text }));
+            notify('error', `${title} failed: ${text}`);
+            return false;
+          }
+        }
+
+        updateFlow(id, (flow) => ({ ...flow, status: 'confirmed' }));
+        notify('success', `${title} confirmed`);
+        return true;
+      };
+
+      // Flows run strictly one after another so wallet prompts never interleave
+      const result = queueRef.current.then(execute, execute);
+      queueRef.current = result;
+      return { id, result };
+    },
+    [address, chainId, publicClient, notify]
+  );
+
+  const clearHistory = useCallback(() => {
+    setFlows((current) => current.filter((flow) => flow.status === 'queued' || flow.status === 'running'));
+  }, []);
+
+  const value: TransactionsContextType = {
+    flows: history.flows,
+    toasts,
+    runFlow,
+    notify,
+    dismissToast,
+    clearHistory,
+  };
+
+  return (
+    <TransactionsContext.Provider value={value}>
+      {children}
+    </TransactionsContext.Provider>
+  );
+}
+
+export function useTransactions() {
+  const context = useContext(TransactionsContext);
+  if (!context) {
+    throw new Error('useTransactions must be used within a TransactionsProvider');
+  }
+  return context;
+}
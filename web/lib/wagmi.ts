@@ -1,33 +1,36 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
+import { defineChain } from 'viem';
+import type { Chain } from 'viem';
 import { http } from 'wagmi';
-import { localhost } from 'wagmi/chains';
+import type { Transport } from 'wagmi';
+import { DEPLOYMENTS, Deployment } from './deployments';
 
-// Custom Anvil chain configuration
-export const anvilChain = {
-  ...localhost,
-  id: 31337,
-  name: 'Anvil Local',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Ether',
-    symbol: 'ETH',
-  },
-  rpcUrls: {
-    default: {
-      http: ['http://127.0.0.1:8545'],
+// One chain per Escrow deployment in the registry
+function toChain(deployment: Deployment): Chain {
+  return defineChain({
+    id: deployment.chainId,
+    name: deployment.name,
+    nativeCurrency: {
+      decimals: 18,
+      name: 'Ether',
+      symbol: 'ETH',
     },
-    public: {
-      http: ['http://127.0.0.1:8545'],
+    rpcUrls: {
+      default: {
+        http: [deployment.rpcUrl],
+      },
     },
-  },
-} as const;
+  });
+}
+
+export const chains = DEPLOYMENTS.map(toChain) as [Chain, ...Chain[]];
 
 export const config = getDefaultConfig({
   appName: 'Escrow DApp',
   projectId: 'YOUR_PROJECT_ID', // Puedes usar un projectId de WalletConnect o dejar este
-  chains: [anvilChain],
-  transports: {
-    [anvilChain.id]: http('http://127.0.0.1:8545'),
-  },
+  chains,
+  transports: Object.fromEntries(
+    DEPLOYMENTS.map((deployment) => [deployment.chainId, http(deployment.rpcUrl)])
+  ) as Record<number, Transport>,
   ssr: true,
 });
@@ -0,0 +1,236 @@
+/**
+ * Deploys the contracts with Forge and syncs the web app with the result.
+ *
+ *   npm run deploy   build, run DeployScript against RPC_URL, then sync
+ *   npm run sync     sync from the latest broadcast of DeployScript without deploying
+ *   npm run abi      only regenerate the ABI modules from the Forge artifacts
+ *
+ * Environment:
+ *   RPC_URL      node to deploy to / sync from (default http://127.0.0.1:8545)
+ *   CHAIN_NAME   display name recorded in the manifest (default "Anvil Local")
+ *   PRIVATE_KEY  deployer key, read by DeployScript (deploy only)
+ */
+import { spawnSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { createPublicClient, getAddress, http } from 'viem';
+import type { Abi, Address, Hex, PublicClient } from 'viem';
+import type { Deployment, DeploymentManifest } from '../lib/deployments';
+
+const WEB_DIR = path.resolve(__dirname, '..');
+const SC_DIR = path.resolve(WEB_DIR, '../sc');
+const ABI_DIR = path.join(WEB_DIR, 'lib/abi');
+const MANIFEST_PATH = path.join(WEB_DIR, 'lib/deployments.generated.ts');
+
+const DEPLOY_SCRIPT = 'script/Deploy.s.sol:DeployScript';
+
+// Artifacts exported to the web app: [artifact, export name, module file]
+const ABI_MODULES = [
+  ['Escrow.sol/Escrow.json', 'escrowAbi', 'escrow.ts'],
+  ['MockToken.sol/MockToken.json', 'erc20Abi', 'erc20.ts'],
+  ['MockERC721.sol/MockERC721.json', 'erc721Abi', 'erc721.ts'],
+  ['MockERC1155.sol/MockERC1155.json', 'erc1155Abi', 'erc1155.ts'],
+] as const;
+
+interface ImmutableReference {
+  start: number;
+  length: number;
+}
+
+interface Artifact {
+  abi: Abi;
+  deployedBytecode: { object: Hex; immutableReferences?: Record<string, ImmutableReference[]> };
+}
+
+interface BroadcastTransaction {
+  transactionType: string;
+  contractName: string | null;
+  contractAddress: string | null;
+}
+
+interface BroadcastReceipt {
+  blockNumber: Hex;
+  status: Hex;
+  contractAddress: string | null;
+}
+
+interface Broadcast {
+  chain: number;
+  transactions: BroadcastTransaction[];
+  receipts: BroadcastReceipt[];
+}
+
+class DeployError extends Error {}
+
+function forge(args: string[], env: NodeJS.ProcessEnv = process.env) {
+  const result = spawnSync('forge', args, { cwd: SC_DIR, env, stdio: 'inherit' });
+  if (result.error) throw new DeployError(`Could not run forge: ${result.error.message}`);
+  if (result.status !== 0) throw new DeployError(`forge ${args[0]} failed`);
+}
+
+function readArtifact(artifact: string): Artifact {
+  const file = path.join(SC_DIR, 'out', artifact);
+  if (!existsSync(file)) throw new DeployError(`Missing artifact sc/out/${artifact}, run forge build first`);
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+/**
+ * Short hash identifying an ABI, recorded with each deployment
+ */
+function abiVersion(abi: Abi): string {
+  return createHash('sha256').update(JSON.stringify(abi)).digest('hex').slice(0, 12);
+}
+
+function writeAbiModules() {
+  for (const [artifact, exportName, file] of ABI_MODULES) {
+    const { abi } = readArtifact(artifact);
+    const source =
+      `// Generated from sc/out/${artifact} by scripts/deploy.ts. Do not edit by hand.\n\n` +
+      `export const ${exportName} = ${JSON.stringify(abi, null, 2)} as const;\n\n` +
+      `export const ${exportName}Version = "${abiVersion(abi)}";\n`;
+    writeFileSync(path.join(ABI_DIR, file), source);
+  }
+  console.log('✓ ABIs written to web/lib/abi/');
+}
+
+function readBroadcast(chainId: number): Broadcast {
+  const file = path.join(SC_DIR, 'broadcast', path.basename(DEPLOY_SCRIPT.split(':')[0]), String(chainId), 'run-latest.json');
+  if (!existsSync(file)) {
+    throw new DeployError(`No broadcast found for chain ${chainId} (${path.relative(WEB_DIR, file)}), deploy first`);
+  }
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+function createdAddresses(broadcast: Broadcast, contractName: string): Address[] {
+  return broadcast.transactions
+    .filter((tx) => tx.transactionType === 'CREATE' && tx.contractName === contractName && tx.contractAddress)
+    .map((tx) => getAddress(tx.contractAddress!));
+}
+
+// Zero out the bytes the constructor fills in, which the artifact leaves as placeholders
+function maskImmutables(code: Hex, references: ImmutableReference[]): string {
+  let hex = code.toLowerCase().slice(2);
+  for (const { start, length } of references) {
+    hex = hex.slice(0, start * 2) + '00'.repeat(length) + hex.slice((start + length) * 2);
+  }
+  return hex;
+}
+
+async function verifyBytecode(client: PublicClient, address: Address, expected: Artifact | null, label: string) {
+  const code = await client.getCode({ address });
+  if (!code || code === '0x') throw new DeployError(`${label} at ${address} has no bytecode`);
+  if (!expected) return;
+
+  const references = Object.values(expected.deployedBytecode.immutableReferences ?? {}).flat();
+  if (maskImmutables(code, references) !== maskImmutables(expected.deployedBytecode.object, references)) {
+    throw new DeployError(`${label} at ${address} does not match the compiled bytecode, rebuild and redeploy`);
+  }
+}
+
+async function readManifest(): Promise<DeploymentManifest> {
+  if (!existsSync(MANIFEST_PATH)) return {};
+  const module = await import(pathToFileURL(MANIFEST_PATH).href);
+  return module.deploymentManifest ?? {};
+}
+
+function writeManifest(manifest: DeploymentManifest) {
+  // bigints have no JSON form: tag them, then turn the tags into literals
+  const body = JSON.stringify(manifest, (_key, value) => (typeof value === 'bigint' ? `__bigint__${value}` : value), 2)
+    .replace(/"__bigint__(\d+)"/g, '$1n');
+
+  writeFileSync(
+    MANIFEST_PATH,
+    `// Generated by scripts/deploy.ts. Do not edit by hand.\n\n` +
+      `import type { DeploymentManifest } from './deployments';\n\n` +
+      `export const deploymentManifest: DeploymentManifest = ${body};\n`
+  );
+  console.log('✓ Deployments written to web/lib/deployments.generated.ts');
+}
+
+/**
+ * Record the latest DeployScript broadcast on `rpcUrl` in the manifest, after checking it on-chain
+ */
+async function sync(rpcUrl: string, chainName: string) {
+  const client = createPublicClient({ transport: http(rpcUrl) }) as PublicClient;
+  const chainId = await client.getChainId();
+  const broadcast = readBroadcast(chainId);
+
+  const [escrow] = createdAddresses(broadcast, 'Escrow');
+  if (!escrow) throw new DeployError(`The latest broadcast on chain ${chainId} did not create an Escrow`);
+
+  const escrowArtifact = readArtifact('Escrow.sol/Escrow.json');
+  const tokenArtifact = readArtifact('MockToken.sol/MockToken.json');
+
+  // Apart from its WETH address, the Escrow's runtime code must match the artifact byte for byte
+  await verifyBytecode(client, escrow, escrowArtifact, 'Escrow');
+
+  const tokens: Record<string, Address> = {};
+  for (const contractName of ['MockToken', 'MockWETH', 'MockERC721', 'MockERC1155']) {
+    for (const address of createdAddresses(broadcast, contractName)) {
+      // ERC20Permit stores immutables in the runtime code, so only check that code is there for mocks
+      await verifyBytecode(client, address, null, contractName);
+      // The WETH and NFT mocks expose symbol() with the same signature
+      const symbol = await client.readContract({ address, abi: tokenArtifact.abi, functionName: 'symbol' });
+      tokens[symbol as string] = address;
+    }
+  }
+
+  const deployBlock = broadcast.receipts.reduce<bigint | null>((min, receipt) => {
+    const block = BigInt(receipt.blockNumber);
+    return min === null || block < min ? block : min;
+  }, null);
+
+  const deployment: Deployment = {
+    chainId,
+    name: chainName,
+    rpcUrl,
+    escrow: {
+      address: escrow,
+      deployBlock: deployBlock ?? 0n,
+      abiVersion: abiVersion(escrowArtifact.abi),
+    },
+    tokens,
+  };
+
+  writeAbiModules();
+  writeManifest({ ...(await readManifest()), [chainId]: deployment });
+
+  console.log(`\nEscrow:  ${escrow} (chain ${chainId}, from block ${deployment.escrow.deployBlock})`);
+  for (const [symbol, address] of Object.entries(tokens)) console.log(`${symbol.padEnd(8)} ${address}`);
+}
+
+async function main() {
+  const command = process.argv[2] ?? 'deploy';
+  const rpcUrl = process.env.RPC_URL ?? 'http://127.0.0.1:8545';
+  const chainName = process.env.CHAIN_NAME ?? 'Anvil Local';
+
+  switch (command) {
+    case 'abi':
+      forge(['build']);
+      writeAbiModules();
+      return;
+
+    case 'sync':
+      await sync(rpcUrl, chainName);
+      return;
+
+    case 'deploy':
+      if (!process.env.PRIVATE_KEY) {
+        throw new DeployError('Set PRIVATE_KEY to the deployer key (anvil prints its test keys on startup)');
+      }
+      forge(['build']);
+      forge(['script', DEPLOY_SCRIPT, '--rpc-url', rpcUrl, '--broadcast', '--legacy']);
+      await sync(rpcUrl, chainName);
+      return;
+
+    default:
+      throw new DeployError(`Unknown command "${command}", expected deploy, sync or abi`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof DeployError ? `Error: ${error.message}` : error);
+  process.exit(1);
+});